@@ -13,6 +13,11 @@ public class AuthController : ControllerBase
     private readonly IAuthService _authService;
     private readonly ILogger<AuthController> _logger;
 
+    // Clients that keep the refresh token out of reach of page scripts ask for it as a cookie
+    private const string RefreshTokenTransportHeader = "X-Refresh-Token-Transport";
+    private const string RefreshTokenCookieName = "refresh_token";
+    private static readonly TimeSpan RefreshTokenCookieLifetime = TimeSpan.FromDays(7);
+
     public AuthController(IAuthService authService, ILogger<AuthController> logger)
     {
         _authService = authService;
@@ -25,7 +30,7 @@ public class AuthController : ControllerBase
         try
         {
             var response = await _authService.LoginAsync(request);
-            return Ok(response);
+            return Ok(WantsRefreshTokenCookie() ? IssueRefreshTokenCookie(response) : response);
         }
         catch (InvalidOperationException ex)
         {
@@ -45,7 +50,7 @@ public class AuthController : ControllerBase
         try
         {
             var response = await _authService.RegisterAsync(request);
-            return Ok(response);
+            return Ok(WantsRefreshTokenCookie() ? IssueRefreshTokenCookie(response) : response);
         }
         catch (InvalidOperationException ex)
         {
@@ -62,14 +67,26 @@ public class AuthController : ControllerBase
     [HttpPost("refresh")]
     public async Task<ActionResult<LoginResponse>> RefreshToken([FromBody] RefreshTokenRequest request)
     {
+        // Cookie clients send an empty body; the token arrives in the cookie instead
+        var useCookie = WantsRefreshTokenCookie();
         try
         {
-            var response = await _authService.RefreshTokenAsync(request.RefreshToken);
-            return Ok(response);
+            var refreshToken = useCookie ? Request.Cookies[RefreshTokenCookieName] : request.RefreshToken;
+            if (string.IsNullOrEmpty(refreshToken))
+            {
+                return BadRequest(new { error = "Refresh token is required" });
+            }
+
+            var response = await _authService.RefreshTokenAsync(refreshToken);
+            return Ok(useCookie ? IssueRefreshTokenCookie(response) : response);
         }
         catch (InvalidOperationException ex)
         {
             _logger.LogWarning(ex, "Token refresh failed");
+            if (useCookie)
+            {
+                Response.Cookies.Delete(RefreshTokenCookieName, RefreshTokenCookieOptions());
+            }
             return BadRequest(new { error = ex.Message });
         }
         catch (Exception ex)
@@ -92,6 +109,7 @@ public class AuthController : ControllerBase
             }
 
             await _authService.LogoutAsync(userId);
+            Response.Cookies.Delete(RefreshTokenCookieName, RefreshTokenCookieOptions());
             return Ok(new { message = "Logged out successfully" });
         }
         catch (Exception ex)
@@ -141,6 +159,34 @@ public class AuthController : ControllerBase
             return StatusCode(500, new { error = "Internal server error" });
         }
     }
+
+    private bool WantsRefreshTokenCookie()
+    {
+        return string.Equals(Request.Headers[RefreshTokenTransportHeader], "cookie", StringComparison.OrdinalIgnoreCase);
+    }
+
+    // The refresh token goes out only in the HTTP-only cookie, never in the body
+    private LoginResponse IssueRefreshTokenCookie(LoginResponse response)
+    {
+        var options = RefreshTokenCookieOptions();
+        options.Expires = DateTimeOffset.UtcNow.Add(RefreshTokenCookieLifetime);
+        Response.Cookies.Append(RefreshTokenCookieName, response.RefreshToken, options);
+
+        response.RefreshToken = string.Empty;
+        return response;
+    }
+
+    // Scoped to the auth endpoints so the cookie is not sent with every API call
+    private static CookieOptions RefreshTokenCookieOptions()
+    {
+        return new CookieOptions
+        {
+            HttpOnly = true,
+            Secure = true,
+            SameSite = SameSiteMode.Strict,
+            Path = "/api/auth"
+        };
+    }
 }
 
 public class RefreshTokenRequest
@@ -1,4 +1,5 @@
 using DocumentVerification.API.Data;
+using DocumentVerification.API.Models.DTOs;
 using DocumentVerification.API.Models.DTOs.Verification;
 using DocumentVerification.API.Services;
 using Microsoft.AspNetCore.Authorization;
@@ -15,17 +16,20 @@ public class VerificationController : ControllerBase
 {
     private readonly IDocumentService _documentService;
     private readonly IWorkflowService _workflowService;
+    private readonly IDecisionReasonService _decisionReasonService;
     private readonly DocumentVerificationDbContext _context;
     private readonly ILogger<VerificationController> _logger;
 
     public VerificationController(
         IDocumentService documentService,
         IWorkflowService workflowService,
+        IDecisionReasonService decisionReasonService,
         DocumentVerificationDbContext context,
         ILogger<VerificationController> logger)
     {
         _documentService = documentService;
         _workflowService = workflowService;
+        _decisionReasonService = decisionReasonService;
         _context = context;
         _logger = logger;
     }
@@ -100,9 +104,12 @@ public class VerificationController : ControllerBase
     }
 
     [HttpGet("my-verifications")]
-    public async Task<ActionResult<IEnumerable<VerificationDto>>> GetMyVerifications(
+    public async Task<ActionResult<PaginatedResponse<VerificationDto>>> GetMyVerifications(
         [FromQuery] int page = 1,
-        [FromQuery] int pageSize = 20)
+        [FromQuery] int pageSize = 20,
+        [FromQuery] string[]? status = null,
+        [FromQuery] string[]? documentType = null,
+        [FromQuery] string[]? priority = null)
     {
         try
         {
@@ -112,7 +119,13 @@ public class VerificationController : ControllerBase
                 return Unauthorized(new { error = "User not authenticated" });
             }
 
-            var verifications = await _documentService.GetUserVerificationsAsync(userId, page, pageSize);
+            var filter = new VerificationListFilter
+            {
+                Statuses = status,
+                DocumentTypes = documentType,
+                Priorities = priority
+            };
+            var verifications = await _documentService.GetUserVerificationsAsync(userId, page, pageSize, filter);
             return Ok(verifications);
         }
         catch (Exception ex)
@@ -124,14 +137,23 @@ public class VerificationController : ControllerBase
 
     [HttpGet]
     [Authorize(Roles = "Admin,VerificationOfficer")]
-    public async Task<ActionResult<IEnumerable<VerificationDto>>> GetAllVerifications(
+    public async Task<ActionResult<PaginatedResponse<VerificationDto>>> GetAllVerifications(
         [FromQuery] int page = 1,
         [FromQuery] int pageSize = 20,
-        [FromQuery] string? status = null)
+        [FromQuery] string[]? status = null,
+        [FromQuery] string[]? documentType = null,
+        [FromQuery] string[]? priority = null)
     {
         try
         {
-            var verifications = await _documentService.GetAllVerificationsAsync(page, pageSize, status);
+            // Repeated keys (status=Pending&status=Approved) match any of their values
+            var filter = new VerificationListFilter
+            {
+                Statuses = status,
+                DocumentTypes = documentType,
+                Priorities = priority
+            };
+            var verifications = await _documentService.GetAllVerificationsAsync(page, pageSize, filter);
             return Ok(verifications);
         }
         catch (Exception ex)
@@ -149,13 +171,29 @@ public class VerificationController : ControllerBase
     {
         try
         {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+            // Only the officer holding the review claim may decide the case
+            await _workflowService.EnsureClaimHeldAsync(id, userId);
+
             var verification = await _documentService.UpdateVerificationStatusAsync(
                 id,
                 request.Status,
-                request.Reason);
+                request.Reason,
+                request.ReasonCodes,
+                request.Corrections,
+                userId);
 
             return Ok(verification);
         }
+        catch (ClaimConflictException ex)
+        {
+            return Conflict(new { error = ex.Message, code = "ClaimConflict", claimedBy = ex.ClaimedBy });
+        }
+        catch (AlreadyDecidedException ex)
+        {
+            return Conflict(new { error = ex.Message, code = "AlreadyDecided", status = ex.Status });
+        }
         catch (InvalidOperationException ex)
         {
             _logger.LogWarning(ex, "Status update failed for verification: {VerificationId}", id);
@@ -168,6 +206,54 @@ public class VerificationController : ControllerBase
         }
     }
 
+    [HttpPost("{id}/resubmit")]
+    public async Task<ActionResult<VerificationDto>> ResubmitDocuments(Guid id, [FromForm] ResubmitDocumentsRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized(new { error = "User not authenticated" });
+            }
+
+            var verification = await _documentService.ResubmitDocumentsAsync(id, userId, request);
+
+            // Run the workflow again on the replacement files, as for a new submission
+            try
+            {
+                verification = await _workflowService.StartVerificationAsync(id);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to restart verification after resubmission: {VerificationId}", id);
+            }
+
+            return Ok(verification);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Resubmission failed for verification: {VerificationId}", id);
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error resubmitting documents for verification: {VerificationId}", id);
+            return StatusCode(500, new { error = "Internal server error" });
+        }
+    }
+
+    // Applicants read the taxonomy too, to explain the codes on their decisions
+    [HttpGet("reason-codes")]
+    public ActionResult<IEnumerable<DecisionReasonCodeDto>> GetReasonCodes()
+    {
+        return Ok(_decisionReasonService.GetReasonCodes());
+    }
+
     [HttpGet("{id}/document/{documentId}")]
     public async Task<ActionResult> GetDocument(Guid id, Guid documentId)
     {
@@ -182,8 +268,8 @@ public class VerificationController : ControllerBase
                 return NotFound(new { error = "Verification not found" });
             }
 
-            // Users can only access their own documents unless they're admins
-            if (userRole != "Admin" && verification.SubmittedBy != userId)
+            // Users can only access their own documents unless they review them
+            if (userRole != "Admin" && userRole != "VerificationOfficer" && verification.SubmittedBy != userId)
             {
                 return Forbid();
             }
@@ -209,6 +295,27 @@ public class VerificationController : ControllerBase
         }
     }
 
+    [HttpGet("{id}/portrait")]
+    [Authorize(Roles = "Admin,VerificationOfficer")]
+    public async Task<ActionResult> GetPortrait(Guid id)
+    {
+        try
+        {
+            var fileBytes = await _documentService.GetPortraitFileAsync(id);
+            if (fileBytes == null)
+            {
+                return NotFound(new { error = "No portrait was extracted for this verification" });
+            }
+
+            return File(fileBytes, "image/jpeg");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting portrait: {VerificationId}", id);
+            return StatusCode(500, new { error = "Internal server error" });
+        }
+    }
+
     [HttpDelete("{id}")]
     public async Task<ActionResult> DeleteVerification(Guid id)
     {
@@ -257,4 +364,6 @@ public class UpdateStatusRequest
 {
     public string Status { get; set; } = string.Empty;
     public string? Reason { get; set; }
+    public List<string> ReasonCodes { get; set; } = new();
+    public List<FieldCorrectionDto> Corrections { get; set; } = new();
 }
\ No newline at end of file
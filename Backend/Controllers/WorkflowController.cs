@@ -1,3 +1,4 @@
+using DocumentVerification.API.Models.DTOs;
 using DocumentVerification.API.Models.DTOs.Verification;
 using DocumentVerification.API.Services;
 using Microsoft.AspNetCore.Authorization;
@@ -148,8 +149,9 @@ public class WorkflowController : ControllerBase
         }
     }
 
+    // Hands a case to a named officer regardless of who holds it; officers claim cases themselves
     [HttpPost("{id}/assign")]
-    [Authorize(Roles = "Admin,VerificationOfficer")]
+    [Authorize(Roles = "Admin")]
     public async Task<ActionResult<VerificationDto>> AssignToOfficer(Guid id, [FromBody] AssignOfficerRequest request)
     {
         try
@@ -169,31 +171,117 @@ public class WorkflowController : ControllerBase
         }
     }
 
+    // Claims a free case for the caller, or renews the caller's own claim
+    [HttpPost("{id}/claim")]
+    [Authorize(Roles = "Admin,VerificationOfficer")]
+    public async Task<ActionResult<VerificationDto>> ClaimVerification(Guid id)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized(new { error = "User not authenticated" });
+            }
+
+            var result = await _workflowService.ClaimAsync(id, userId);
+            return Ok(result);
+        }
+        catch (ClaimConflictException ex)
+        {
+            return Conflict(new { error = ex.Message, code = "ClaimConflict", claimedBy = ex.ClaimedBy });
+        }
+        catch (AlreadyDecidedException ex)
+        {
+            return Conflict(new { error = ex.Message, code = "AlreadyDecided", status = ex.Status });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Failed to claim verification: {VerificationId}", id);
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error claiming verification: {VerificationId}", id);
+            return StatusCode(500, new { error = "Internal server error" });
+        }
+    }
+
+    [HttpPost("{id}/release")]
+    [Authorize(Roles = "Admin,VerificationOfficer")]
+    public async Task<ActionResult<VerificationDto>> ReleaseVerification(Guid id)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized(new { error = "User not authenticated" });
+            }
+
+            var result = await _workflowService.ReleaseClaimAsync(id, userId);
+            return Ok(result);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Failed to release verification: {VerificationId}", id);
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error releasing verification: {VerificationId}", id);
+            return StatusCode(500, new { error = "Internal server error" });
+        }
+    }
+
+    [HttpPost("{id}/request-resubmission")]
+    [Authorize(Roles = "Admin,VerificationOfficer")]
+    public async Task<ActionResult<VerificationDto>> RequestResubmission(Guid id, [FromBody] RequestResubmissionRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            var result = await _workflowService.RequestResubmissionAsync(id, userId, request.Documents, request.Message);
+            return Ok(result);
+        }
+        catch (ClaimConflictException ex)
+        {
+            return Conflict(new { error = ex.Message, code = "ClaimConflict", claimedBy = ex.ClaimedBy });
+        }
+        catch (AlreadyDecidedException ex)
+        {
+            return Conflict(new { error = ex.Message, code = "AlreadyDecided", status = ex.Status });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Failed to request resubmission for verification: {VerificationId}", id);
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error requesting resubmission for verification: {VerificationId}", id);
+            return StatusCode(500, new { error = "Internal server error" });
+        }
+    }
+
     [HttpGet("queue")]
     [Authorize(Roles = "Admin,VerificationOfficer")]
-    public async Task<ActionResult<IEnumerable<VerificationDto>>> GetReviewQueue(
+    public async Task<ActionResult<PaginatedResponse<VerificationDto>>> GetReviewQueue(
         [FromQuery] int page = 1,
         [FromQuery] int pageSize = 20,
-        [FromQuery] string? priority = null)
+        [FromQuery] string[]? priority = null)
     {
         try
         {
-            // Get verifications that need manual review (ReviewNeeded, Processing, or Pending status)
-            var statuses = new[] { "ReviewNeeded", "Processing", "Pending" };
-            var allVerifications = await _documentService.GetAllVerificationsAsync(page, pageSize, null);
-            
-            // Filter by statuses that need review
-            var queue = allVerifications
-                .Where(v => statuses.Contains(v.Status, StringComparer.OrdinalIgnoreCase))
-                .ToList();
-            
-            // Filter by priority if specified
-            if (!string.IsNullOrWhiteSpace(priority))
+            // Get verifications that need manual review (ReviewNeeded, Processing, or Pending status);
+            // filtered in the query so the page and its totals cover the whole queue
+            var filter = new VerificationListFilter
             {
-                queue = queue.Where(v => 
-                    v.Priority.Equals(priority, StringComparison.OrdinalIgnoreCase)).ToList();
-            }
-            
+                Statuses = new[] { "ReviewNeeded", "Processing", "Pending" },
+                Priorities = priority
+            };
+            var queue = await _documentService.GetAllVerificationsAsync(page, pageSize, filter);
+
             return Ok(queue);
         }
         catch (Exception ex)
@@ -249,4 +337,11 @@ public class UpdateStageRequest
 public class AssignOfficerRequest
 {
     public string OfficerId { get; set; } = string.Empty;
+}
+
+public class RequestResubmissionRequest
+{
+    // IDDocument, IDDocumentBack, Selfie
+    public List<string> Documents { get; set; } = new();
+    public string? Message { get; set; }
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DocumentVerification.API.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddApplicantDetails : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "ApplicantDateOfBirth",
+                table: "Verifications",
+                type: "character varying(10)",
+                maxLength: 10,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ApplicantName",
+                table: "Verifications",
+                type: "character varying(100)",
+                maxLength: 100,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "ApplicantDateOfBirth",
+                table: "Verifications");
+
+            migrationBuilder.DropColumn(
+                name: "ApplicantName",
+                table: "Verifications");
+        }
+    }
+}
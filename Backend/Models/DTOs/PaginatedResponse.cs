@@ -0,0 +1,15 @@
+namespace DocumentVerification.API.Models.DTOs;
+
+/// <summary>
+/// One page of a list endpoint, with the totals a client needs to page through the rest.
+/// </summary>
+public class PaginatedResponse<T>
+{
+    public List<T> Items { get; set; } = new();
+    public int TotalCount { get; set; }
+    public int CurrentPage { get; set; }
+    public int PageSize { get; set; }
+    public int TotalPages => PageSize > 0 ? (int)Math.Ceiling(TotalCount / (double)PageSize) : 0;
+    public bool HasNextPage => CurrentPage < TotalPages;
+    public bool HasPreviousPage => CurrentPage > 1;
+}
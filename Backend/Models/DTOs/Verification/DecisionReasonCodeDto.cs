@@ -0,0 +1,10 @@
+namespace DocumentVerification.API.Models.DTOs.Verification;
+
+public class DecisionReasonCodeDto
+{
+    public string Code { get; set; } = string.Empty;
+    public string Label { get; set; } = string.Empty;
+    public string ApplicantMessage { get; set; } = string.Empty;
+    public List<string> AppliesTo { get; set; } = new();
+    public bool RequiresNotes { get; set; }
+}
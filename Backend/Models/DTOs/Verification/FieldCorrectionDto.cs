@@ -0,0 +1,8 @@
+namespace DocumentVerification.API.Models.DTOs.Verification;
+
+// Officer's replacement for a misread OCR field, submitted with the decision
+public class FieldCorrectionDto
+{
+    public string Field { get; set; } = string.Empty;
+    public string Value { get; set; } = string.Empty;
+}
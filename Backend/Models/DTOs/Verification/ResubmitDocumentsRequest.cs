@@ -0,0 +1,12 @@
+namespace DocumentVerification.API.Models.DTOs.Verification;
+
+// Replacement files for the documents an officer asked to be uploaded again
+public class ResubmitDocumentsRequest
+{
+    public IFormFile? IdDocument { get; set; }
+
+    /// <summary>CitizenshipCard only: back side (data in English).</summary>
+    public IFormFile? IdDocumentBack { get; set; }
+
+    public IFormFile? SelfieImage { get; set; }
+}
@@ -9,8 +9,12 @@ public class VerificationDto
     public string Priority { get; set; } = string.Empty;
     public string? FinalDecision { get; set; }
     public string? DecisionReason { get; set; }
+    public List<string> ReasonCodes { get; set; } = new();
     public string? ErrorMessage { get; set; }
     public string? UserActionRequired { get; set; }
+    public List<string> RequestedDocuments { get; set; } = new();
+    public string? ApplicantName { get; set; }
+    public string? ApplicantDateOfBirth { get; set; }
     public DateTime? ProcessingStartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
     public DateTime CreatedAt { get; set; }
@@ -26,6 +30,7 @@ public class VerificationDto
     // User information
     public string? SubmittedBy { get; set; }
     public string? AssignedTo { get; set; }
+    public DateTime? ClaimedAt { get; set; }
 }
 
 public class OcrResultDto
@@ -44,6 +49,11 @@ public class ExtractedFieldDto
     public decimal Confidence { get; set; }
     public BoundingBoxDto? BoundingBox { get; set; }
     public string? Format { get; set; }
+
+    // Set once an officer corrects the value; OriginalValue keeps what OCR read
+    public string? OriginalValue { get; set; }
+    public string? CorrectedBy { get; set; }
+    public DateTime? CorrectedAt { get; set; }
 }
 
 public class BoundingBoxDto
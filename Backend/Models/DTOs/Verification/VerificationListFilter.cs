@@ -0,0 +1,12 @@
+namespace DocumentVerification.API.Models.DTOs.Verification;
+
+/// <summary>
+/// Filters for the verification list endpoints. Each one matches any of its values;
+/// an empty or missing filter matches everything.
+/// </summary>
+public class VerificationListFilter
+{
+    public IReadOnlyCollection<string>? Statuses { get; set; }
+    public IReadOnlyCollection<string>? DocumentTypes { get; set; }
+    public IReadOnlyCollection<string>? Priorities { get; set; }
+}
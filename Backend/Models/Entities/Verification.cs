@@ -27,18 +27,36 @@ public class Verification
     public string? SubmittedBy { get; set; }
     public string? AssignedTo { get; set; }
 
+    // When the assigned officer last claimed or renewed the case; the claim lapses after a timeout
+    public DateTime? ClaimedAt { get; set; }
+
+    // As entered by the applicant, for reconciliation against the OCR fields
+    [StringLength(100)]
+    public string? ApplicantName { get; set; }
+
+    [StringLength(10)]
+    public string? ApplicantDateOfBirth { get; set; } // yyyy-MM-dd
+
     [StringLength(20)]
     public string? FinalDecision { get; set; }
 
     [StringLength(1000)]
     public string? DecisionReason { get; set; }
 
+    // Comma-separated codes from the decision reason taxonomy
+    [StringLength(500)]
+    public string? DecisionReasonCodes { get; set; }
+
     [StringLength(2000)]
     public string? ErrorMessage { get; set; }
 
     [StringLength(1000)]
     public string? UserActionRequired { get; set; }
 
+    // Comma-separated document types an officer asked the applicant to upload again
+    [StringLength(200)]
+    public string? RequestedDocuments { get; set; }
+
     public DateTime? ProcessingStartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
@@ -0,0 +1,18 @@
+namespace DocumentVerification.API.Services;
+
+/// <summary>
+/// Raised when an officer claims or decides a case that is no longer awaiting review,
+/// most often because another decision has already been recorded.
+/// </summary>
+public class AlreadyDecidedException : InvalidOperationException
+{
+    public string Status { get; }
+
+    public AlreadyDecidedException(string status)
+        : base(status == "Approved" || status == "Rejected"
+            ? $"This case has already been {status.ToLowerInvariant()}"
+            : $"This case is {status} and is not awaiting a decision")
+    {
+        Status = status;
+    }
+}
@@ -0,0 +1,18 @@
+namespace DocumentVerification.API.Services;
+
+/// <summary>
+/// Raised when an officer acts on a case whose review claim they do not hold:
+/// another officer holds it, or nobody does and it must be claimed first.
+/// </summary>
+public class ClaimConflictException : InvalidOperationException
+{
+    public string? ClaimedBy { get; }
+
+    public ClaimConflictException(string? claimedBy)
+        : base(claimedBy != null
+            ? "Another officer is already reviewing this case"
+            : "Claim this case before making a decision")
+    {
+        ClaimedBy = claimedBy;
+    }
+}
@@ -0,0 +1,41 @@
+using DocumentVerification.API.Models.DTOs.Verification;
+
+namespace DocumentVerification.API.Services;
+
+public class DecisionReasonService : IDecisionReasonService
+{
+    private readonly IReadOnlyList<DecisionReasonCodeDto> _reasonCodes;
+
+    public DecisionReasonService(IConfiguration configuration)
+    {
+        // The taxonomy lives in configuration so codes can change without a release
+        _reasonCodes = configuration.GetSection("DecisionReasons:Codes").Get<List<DecisionReasonCodeDto>>()
+            ?? new List<DecisionReasonCodeDto>();
+    }
+
+    public IReadOnlyList<DecisionReasonCodeDto> GetReasonCodes() => _reasonCodes;
+
+    public void ValidateReasonCodes(string status, IReadOnlyCollection<string> reasonCodes, string? reason)
+    {
+        foreach (var code in reasonCodes)
+        {
+            var reasonCode = _reasonCodes.FirstOrDefault(r => r.Code == code)
+                ?? throw new InvalidOperationException($"Unknown reason code: {code}");
+
+            if (!reasonCode.AppliesTo.Contains(status))
+            {
+                throw new InvalidOperationException($"Reason code {code} cannot be used for status {status}");
+            }
+
+            if (reasonCode.RequiresNotes && string.IsNullOrWhiteSpace(reason))
+            {
+                throw new InvalidOperationException($"Reason code {code} requires notes");
+            }
+        }
+
+        if (status == "Rejected" && reasonCodes.Count == 0)
+        {
+            throw new InvalidOperationException("Select at least one rejection reason");
+        }
+    }
+}
@@ -1,8 +1,11 @@
 using DocumentVerification.API.Data;
+using DocumentVerification.API.Models.DTOs;
 using DocumentVerification.API.Models.DTOs.Verification;
 using DocumentVerification.API.Models.Entities;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
+using System.Globalization;
+using System.Text.RegularExpressions;
 
 namespace DocumentVerification.API.Services;
 
@@ -13,19 +16,22 @@ public class DocumentService : IDocumentService
     private readonly UserManager<IdentityUser> _userManager;
     private readonly ILogger<DocumentService> _logger;
     private readonly IOcrService _ocrService;
+    private readonly IDecisionReasonService _decisionReasonService;
 
     public DocumentService(
         DocumentVerificationDbContext context,
         IFileStorageService fileStorageService,
         UserManager<IdentityUser> userManager,
         ILogger<DocumentService> logger,
-        IOcrService ocrService)
+        IOcrService ocrService,
+        IDecisionReasonService decisionReasonService)
     {
         _context = context;
         _fileStorageService = fileStorageService;
         _userManager = userManager;
         _logger = logger;
         _ocrService = ocrService;
+        _decisionReasonService = decisionReasonService;
     }
 
     public async Task<VerificationDto> CreateVerificationAsync(CreateVerificationRequest request, string userId)
@@ -44,6 +50,8 @@ public class DocumentService : IDocumentService
                 Status = "Pending",
                 Priority = request.Priority,
                 SubmittedBy = userId,
+                ApplicantName = string.IsNullOrWhiteSpace(request.ApplicantName) ? null : request.ApplicantName.Trim(),
+                ApplicantDateOfBirth = request.DateOfBirth?.ToString("yyyy-MM-dd"),
                 CreatedAt = DateTime.UtcNow,
                 UpdatedAt = DateTime.UtcNow
             };
@@ -69,64 +77,26 @@ public class DocumentService : IDocumentService
             // Validate that the uploaded document matches the claimed document type
             try
             {
-                var detectedType = await _ocrService.DetectDocumentTypeAsync(idFilePath);
-                if (detectedType != null)
+                await EnsureDocumentTypeMatchesAsync(idFilePath, request.DocumentType, verification.Id);
+            }
+            catch (InvalidOperationException)
+            {
+                // Clean up saved file
+                try
                 {
-                    var claimedType = NormalizeDocumentType(request.DocumentType);
-                    var normalizedDetectedType = NormalizeDocumentType(detectedType);
-                    
-                    if (normalizedDetectedType != claimedType)
-                    {
-                        _logger.LogWarning(
-                            "Document type mismatch detected. Claimed: {ClaimedType}, Detected: {DetectedType} for verification: {VerificationId}",
-                            claimedType, normalizedDetectedType, verification.Id);
-                        
-                        // Clean up saved file
-                        try
-                        {
-                            await _fileStorageService.DeleteFileAsync(idFilePath);
-                        }
-                        catch (Exception ex)
-                        {
-                            _logger.LogWarning(ex, "Failed to delete file after type mismatch: {FilePath}", idFilePath);
-                        }
-                        
-                        // Remove verification record
-                        _context.Verifications.Remove(verification);
-                        await _context.SaveChangesAsync();
-                        
-                        throw new InvalidOperationException(
-                            $"The uploaded document does not match the selected document type. " +
-                            $"You selected '{request.DocumentType}', but the document appears to be a '{detectedType}'. " +
-                            $"Please upload the correct document type.");
-                    }
-                    else
-                    {
-                        _logger.LogInformation(
-                            "Document type validation passed. Claimed: {ClaimedType}, Detected: {DetectedType} for verification: {VerificationId}",
-                            claimedType, normalizedDetectedType, verification.Id);
-                    }
+                    await _fileStorageService.DeleteFileAsync(idFilePath);
                 }
-                else
+                catch (Exception ex)
                 {
-                    _logger.LogWarning(
-                        "Could not detect document type from uploaded file. Proceeding with claimed type: {ClaimedType} for verification: {VerificationId}",
-                        request.DocumentType, verification.Id);
+                    _logger.LogWarning(ex, "Failed to delete file after type mismatch: {FilePath}", idFilePath);
                 }
-            }
-            catch (InvalidOperationException)
-            {
-                // Re-throw validation errors
+
+                // Remove verification record
+                _context.Verifications.Remove(verification);
+                await _context.SaveChangesAsync();
+
                 throw;
             }
-            catch (Exception ex)
-            {
-                // Log but don't fail the upload if document type detection fails
-                // This allows the system to continue processing even if OCR is temporarily unavailable
-                _logger.LogWarning(ex, 
-                    "Document type detection failed for verification: {VerificationId}. Proceeding with claimed type: {ClaimedType}",
-                    verification.Id, request.DocumentType);
-            }
 
             var idDocument = new Document
             {
@@ -238,25 +208,19 @@ public class DocumentService : IDocumentService
         }
     }
 
-    public async Task<IEnumerable<VerificationDto>> GetUserVerificationsAsync(string userId, int page = 1, int pageSize = 20)
+    public async Task<PaginatedResponse<VerificationDto>> GetUserVerificationsAsync(
+        string userId,
+        int page = 1,
+        int pageSize = 20,
+        VerificationListFilter? filter = null)
     {
         try
         {
-            var verifications = await _context.Verifications
+            var query = _context.Verifications
                 .Include(v => v.Documents)
-                .Where(v => v.UserId == userId)
-                .OrderByDescending(v => v.CreatedAt)
-                .Skip((page - 1) * pageSize)
-                .Take(pageSize)
-                .ToListAsync();
-
-            var dtos = new List<VerificationDto>();
-            foreach (var verification in verifications)
-            {
-                dtos.Add(await MapToVerificationDtoAsync(verification));
-            }
+                .Where(v => v.UserId == userId);
 
-            return dtos;
+            return await ToPageAsync(ApplyListFilter(query, filter), page, pageSize);
         }
         catch (Exception ex)
         {
@@ -265,7 +229,10 @@ public class DocumentService : IDocumentService
         }
     }
 
-    public async Task<IEnumerable<VerificationDto>> GetAllVerificationsAsync(int page = 1, int pageSize = 20, string? status = null)
+    public async Task<PaginatedResponse<VerificationDto>> GetAllVerificationsAsync(
+        int page = 1,
+        int pageSize = 20,
+        VerificationListFilter? filter = null)
     {
         try
         {
@@ -273,24 +240,7 @@ public class DocumentService : IDocumentService
                 .Include(v => v.Documents)
                 .AsQueryable();
 
-            if (!string.IsNullOrEmpty(status))
-            {
-                query = query.Where(v => v.Status == status);
-            }
-
-            var verifications = await query
-                .OrderByDescending(v => v.CreatedAt)
-                .Skip((page - 1) * pageSize)
-                .Take(pageSize)
-                .ToListAsync();
-
-            var dtos = new List<VerificationDto>();
-            foreach (var verification in verifications)
-            {
-                dtos.Add(await MapToVerificationDtoAsync(verification));
-            }
-
-            return dtos;
+            return await ToPageAsync(ApplyListFilter(query, filter), page, pageSize);
         }
         catch (Exception ex)
         {
@@ -299,16 +249,47 @@ public class DocumentService : IDocumentService
         }
     }
 
-    public async Task<VerificationDto> UpdateVerificationStatusAsync(Guid id, string status, string? reason = null)
+    public async Task<VerificationDto> UpdateVerificationStatusAsync(
+        Guid id,
+        string status,
+        string? reason = null,
+        IReadOnlyCollection<string>? reasonCodes = null,
+        IReadOnlyCollection<FieldCorrectionDto>? corrections = null,
+        string? userId = null)
     {
         try
         {
+            reasonCodes ??= Array.Empty<string>();
+            _decisionReasonService.ValidateReasonCodes(status, reasonCodes, reason);
+
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+
             var verification = await _context.Verifications.FindAsync(id);
             if (verification == null)
             {
                 throw new InvalidOperationException("Verification not found");
             }
 
+            if (verification.Status != "ReviewNeeded")
+            {
+                throw new AlreadyDecidedException(verification.Status);
+            }
+
+            var appliedCorrections = corrections is { Count: > 0 }
+                ? await ApplyFieldCorrectionsAsync(verification, corrections, userId)
+                : null;
+
+            // Move the case out of review with a conditional update, so of two decisions
+            // racing each other only the first is recorded; the other waits on the row and matches nothing
+            var decided = await _context.Verifications
+                .Where(v => v.Id == id && v.Status == "ReviewNeeded")
+                .ExecuteUpdateAsync(s => s.SetProperty(v => v.Status, status));
+            if (decided == 0)
+            {
+                await _context.Entry(verification).ReloadAsync();
+                throw new AlreadyDecidedException(verification.Status);
+            }
+
             var previousStatus = verification.Status;
             verification.Status = status;
             verification.UpdatedAt = DateTime.UtcNow;
@@ -317,12 +298,20 @@ public class DocumentService : IDocumentService
             {
                 verification.FinalDecision = status;
                 verification.DecisionReason = reason;
+                verification.DecisionReasonCodes = reasonCodes.Count > 0 ? string.Join(",", reasonCodes) : null;
                 verification.CompletedAt = DateTime.UtcNow;
             }
 
             await _context.SaveChangesAsync();
+            await transaction.CommitAsync();
 
-            await LogVerificationActionAsync(verification.Id, null, "StatusUpdated", "DocumentService", previousStatus, status);
+            if (appliedCorrections is { Count: > 0 })
+            {
+                await LogVerificationActionAsync(verification.Id, userId, "FieldsCorrected", "DocumentService", previousStatus, status,
+                    System.Text.Json.JsonSerializer.Serialize(appliedCorrections));
+            }
+
+            await LogVerificationActionAsync(verification.Id, userId, "StatusUpdated", "DocumentService", previousStatus, status);
 
             return await MapToVerificationDtoAsync(verification);
         }
@@ -333,6 +322,193 @@ public class DocumentService : IDocumentService
         }
     }
 
+    public async Task<VerificationDto> ResubmitDocumentsAsync(Guid id, string userId, ResubmitDocumentsRequest request)
+    {
+        try
+        {
+            var verification = await _context.Verifications
+                .Include(v => v.Documents)
+                .FirstOrDefaultAsync(v => v.Id == id);
+
+            if (verification == null)
+            {
+                throw new InvalidOperationException("Verification not found");
+            }
+
+            if (verification.SubmittedBy != userId)
+            {
+                throw new UnauthorizedAccessException("Only the applicant can resubmit documents");
+            }
+
+            if (verification.Status != "ActionRequired" || string.IsNullOrWhiteSpace(verification.RequestedDocuments))
+            {
+                throw new InvalidOperationException("No documents have been requested for this verification");
+            }
+
+            var files = new Dictionary<string, IFormFile?>
+            {
+                ["IDDocument"] = request.IdDocument,
+                ["IDDocumentBack"] = request.IdDocumentBack,
+                ["Selfie"] = request.SelfieImage
+            };
+            var requested = verification.RequestedDocuments.Split(',', StringSplitOptions.RemoveEmptyEntries);
+
+            var missing = requested.Where(type => files[type] == null).ToList();
+            if (missing.Count > 0)
+            {
+                throw new InvalidOperationException($"Missing requested documents: {string.Join(", ", missing)}");
+            }
+
+            var replacements = new List<Document>();
+            var replaced = verification.Documents.Where(d => requested.Contains(d.DocumentType)).ToList();
+            var previousStatus = verification.Status;
+            try
+            {
+                foreach (var documentType in requested)
+                {
+                    var file = files[documentType]!;
+                    var isSelfie = documentType == "Selfie";
+                    var validation = await _fileStorageService.ValidateFileAsync(
+                        file,
+                        isSelfie ? new[] { ".jpg", ".jpeg", ".png", ".bmp" } : new[] { ".jpg", ".jpeg", ".png", ".pdf", ".tiff" },
+                        isSelfie ? 5 : 10);
+
+                    if (!validation.isValid)
+                    {
+                        throw new InvalidOperationException($"{documentType} validation failed: {validation.error}");
+                    }
+
+                    var filePath = await _fileStorageService.SaveFileAsync(file, _fileStorageService.GetUploadPath(verification.Id, documentType));
+                    replacements.Add(new Document
+                    {
+                        Id = Guid.NewGuid(),
+                        VerificationId = verification.Id,
+                        DocumentType = documentType,
+                        FileName = Path.GetFileName(filePath),
+                        FilePath = filePath,
+                        FileSizeBytes = file.Length,
+                        MimeType = file.ContentType,
+                        OriginalFileName = file.FileName,
+                        IsPrimary = documentType == "IDDocument",
+                        UploadedAt = DateTime.UtcNow
+                    });
+
+                    // A new front must pass the same type check as the original submission
+                    if (documentType == "IDDocument")
+                    {
+                        await EnsureDocumentTypeMatchesAsync(filePath, verification.DocumentType, verification.Id);
+                    }
+                }
+
+                // Replaced documents go; the rest of the submission is kept as is
+                _context.Documents.RemoveRange(replaced);
+                _context.Documents.AddRange(replacements);
+
+                // Results came from the old files, so the workflow starts from scratch
+                _context.OcrResults.RemoveRange(_context.OcrResults.Where(o => o.VerificationId == id));
+                _context.AuthenticityScores.RemoveRange(_context.AuthenticityScores.Where(a => a.VerificationId == id));
+                _context.FaceMatchResults.RemoveRange(_context.FaceMatchResults.Where(f => f.VerificationId == id));
+
+                verification.Status = "Pending";
+                verification.RequestedDocuments = null;
+                verification.UserActionRequired = null;
+                verification.UpdatedAt = DateTime.UtcNow;
+
+                await _context.SaveChangesAsync();
+            }
+            catch
+            {
+                // Nothing references the new files unless the save went through
+                foreach (var document in replacements)
+                {
+                    await DeleteFileQuietlyAsync(document.FilePath);
+                }
+                throw;
+            }
+
+            // The old files are only removed once the database no longer points at them
+            foreach (var document in replaced)
+            {
+                await DeleteFileQuietlyAsync(document.FilePath);
+            }
+
+            await LogVerificationActionAsync(verification.Id, userId, "DocumentsResubmitted", "DocumentService", previousStatus, verification.Status);
+
+            return await MapToVerificationDtoAsync(verification);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error resubmitting documents for verification: {VerificationId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Rejects an ID document that OCR recognises as a different type than the one claimed.
+    /// Detection failures are logged and let through, so an OCR outage does not block uploads.
+    /// </summary>
+    private async Task EnsureDocumentTypeMatchesAsync(string filePath, string claimedDocumentType, Guid verificationId)
+    {
+        try
+        {
+            var detectedType = await _ocrService.DetectDocumentTypeAsync(filePath);
+            if (detectedType != null)
+            {
+                var claimedType = NormalizeDocumentType(claimedDocumentType);
+                var normalizedDetectedType = NormalizeDocumentType(detectedType);
+                
+                if (normalizedDetectedType != claimedType)
+                {
+                    _logger.LogWarning(
+                        "Document type mismatch detected. Claimed: {ClaimedType}, Detected: {DetectedType} for verification: {VerificationId}",
+                        claimedType, normalizedDetectedType, verificationId);
+                    
+                    throw new InvalidOperationException(
+                        $"The uploaded document does not match the selected document type. " +
+                        $"You selected '{claimedDocumentType}', but the document appears to be a '{detectedType}'. " +
+                        $"Please upload the correct document type.");
+                }
+                else
+                {
+                    _logger.LogInformation(
+                        "Document type validation passed. Claimed: {ClaimedType}, Detected: {DetectedType} for verification: {VerificationId}",
+                        claimedType, normalizedDetectedType, verificationId);
+                }
+            }
+            else
+            {
+                _logger.LogWarning(
+                    "Could not detect document type from uploaded file. Proceeding with claimed type: {ClaimedType} for verification: {VerificationId}",
+                    claimedDocumentType, verificationId);
+            }
+        }
+        catch (InvalidOperationException)
+        {
+            // Re-throw validation errors
+            throw;
+        }
+        catch (Exception ex)
+        {
+            // Log but don't fail the upload if document type detection fails
+            // This allows the system to continue processing even if OCR is temporarily unavailable
+            _logger.LogWarning(ex, 
+                "Document type detection failed for verification: {VerificationId}. Proceeding with claimed type: {ClaimedType}",
+                verificationId, claimedDocumentType);
+        }
+    }
+
+    private async Task DeleteFileQuietlyAsync(string filePath)
+    {
+        try
+        {
+            await _fileStorageService.DeleteFileAsync(filePath);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to delete file: {FilePath}", filePath);
+        }
+    }
+
     public async Task<byte[]> GetDocumentFileAsync(Guid documentId)
     {
         try
@@ -352,6 +528,43 @@ public class DocumentService : IDocumentService
         }
     }
 
+    public async Task<byte[]?> GetPortraitFileAsync(Guid verificationId)
+    {
+        try
+        {
+            var ocrResult = await _context.OcrResults.FirstOrDefaultAsync(o => o.VerificationId == verificationId);
+            if (ocrResult == null || string.IsNullOrWhiteSpace(ocrResult.ExtractedFields))
+            {
+                return null;
+            }
+
+            var extractedFields = System.Text.Json.JsonSerializer.Deserialize<Dictionary<string, ExtractedFieldDto>>(ocrResult.ExtractedFields);
+            var portraitPath = extractedFields != null && extractedFields.TryGetValue("portraitImage", out var portrait)
+                ? portrait.Value
+                : null;
+
+            // The crop is only written for passports and may have been cleaned up since
+            if (string.IsNullOrWhiteSpace(portraitPath) || !File.Exists(portraitPath))
+            {
+                return null;
+            }
+
+            // The path is read back from stored OCR output, so never serve anything outside the upload folder
+            if (!_fileStorageService.IsWithinStorage(portraitPath))
+            {
+                _logger.LogWarning("Refusing portrait path outside file storage for verification: {VerificationId}", verificationId);
+                return null;
+            }
+
+            return await _fileStorageService.GetFileAsync(portraitPath);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting portrait image for verification: {VerificationId}", verificationId);
+            throw;
+        }
+    }
+
     public async Task<bool> DeleteVerificationAsync(Guid id)
     {
         try
@@ -427,7 +640,144 @@ public class DocumentService : IDocumentService
         return normalized;
     }
 
-    private async Task LogVerificationActionAsync(Guid verificationId, string? userId, string action, string serviceName, string? previousStatus, string? newStatus)
+    /// <summary>
+    /// Overwrites OCR field values with officer corrections, keeping the value OCR first read.
+    /// Returns the changes for the audit log; saving is left to the caller.
+    /// </summary>
+    private async Task<List<object>> ApplyFieldCorrectionsAsync(Verification verification, IReadOnlyCollection<FieldCorrectionDto> corrections, string? userId)
+    {
+        var ocrResult = await _context.OcrResults.FirstOrDefaultAsync(o => o.VerificationId == verification.Id);
+        var extractedFields = ocrResult == null || string.IsNullOrWhiteSpace(ocrResult.ExtractedFields)
+            ? null
+            : System.Text.Json.JsonSerializer.Deserialize<Dictionary<string, ExtractedFieldDto>>(ocrResult.ExtractedFields);
+
+        if (ocrResult == null || extractedFields == null)
+        {
+            throw new InvalidOperationException("There are no extracted fields to correct");
+        }
+
+        var applied = new List<object>();
+        foreach (var correction in corrections)
+        {
+            if (!extractedFields.TryGetValue(correction.Field, out var field))
+            {
+                throw new InvalidOperationException($"Unknown extracted field: {correction.Field}");
+            }
+
+            if (ReadOnlyFields.Contains(correction.Field))
+            {
+                throw new InvalidOperationException($"{correction.Field} cannot be corrected");
+            }
+
+            var value = correction.Value?.Trim() ?? string.Empty;
+            if (UpperCaseFields.Contains(correction.Field))
+            {
+                value = value.ToUpperInvariant();
+            }
+
+            if (value.Length == 0 || value.Length > MaxCorrectedValueLength)
+            {
+                throw new InvalidOperationException($"Corrected value for {correction.Field} must be between 1 and {MaxCorrectedValueLength} characters");
+            }
+
+            var problem = ValidateCorrectedValue(correction.Field, value, verification.DocumentType, field);
+            if (problem != null)
+            {
+                throw new InvalidOperationException($"Corrected value for {correction.Field} is invalid: {problem}");
+            }
+
+            if (value == field.Value)
+            {
+                continue;
+            }
+
+            applied.Add(new { field = correction.Field, previousValue = field.Value, originalValue = field.OriginalValue ?? field.Value, correctedValue = value });
+
+            field.OriginalValue ??= field.Value;
+            field.Value = value;
+            field.CorrectedBy = userId;
+            field.CorrectedAt = DateTime.UtcNow;
+        }
+
+        ocrResult.ExtractedFields = System.Text.Json.JsonSerializer.Serialize(extractedFields);
+        return applied;
+    }
+
+    private const int MaxCorrectedValueLength = 200;
+
+    // Fields that are not text; portraitImage holds a server file path
+    private static readonly string[] ReadOnlyFields = { "portraitImage" };
+
+    // Identifiers are compared against the MRZ, which only has upper-case letters and digits
+    private static readonly string[] UpperCaseFields = { "documentNumber", "personalNumber", "nationality" };
+
+    private static readonly string[] SexValues = { "Male", "Female", "Unspecified" };
+
+    // Same rules as the review screen applies before sending a correction
+    private static string? ValidateCorrectedValue(string key, string value, string documentType, ExtractedFieldDto field)
+    {
+        if (field.Format == "yyyy-MM-dd" || key.Contains("date", StringComparison.OrdinalIgnoreCase))
+        {
+            return ValidateCorrectedDate(key, value, documentType);
+        }
+
+        switch (key)
+        {
+            case "documentNumber":
+                // Passport numbers are MRZ fields: at most 9 letters or digits
+                if (string.Equals(documentType, "Passport", StringComparison.OrdinalIgnoreCase))
+                {
+                    return Regex.IsMatch(value, "^[A-Z0-9]{1,9}$") ? null : "Passport numbers are up to 9 letters or digits";
+                }
+                return Regex.IsMatch(value, "^[A-Z0-9][A-Z0-9\\-/]{2,19}$") ? null : "Use 3 to 20 letters, digits, dashes or slashes";
+            case "personalNumber":
+                return Regex.IsMatch(value, "^[A-Z0-9<]{1,14}$") ? null : "Personal numbers are up to 14 letters, digits or <";
+            case "nationality":
+                return Regex.IsMatch(value, "^[A-Z]{3}$") ? null : "Use the 3-letter country code, e.g. NPL";
+            case "sex":
+                return SexValues.Contains(value) ? null : $"Use one of: {string.Join(", ", SexValues)}";
+            default:
+                return null;
+        }
+    }
+
+    private static string? ValidateCorrectedDate(string key, string value, string documentType)
+    {
+        var match = Regex.Match(value, "^(\\d{4})-(\\d{2})-(\\d{2})$");
+        if (!match.Success)
+        {
+            return "Use the YYYY-MM-DD format";
+        }
+
+        var year = int.Parse(match.Groups[1].Value);
+        var month = int.Parse(match.Groups[2].Value);
+        var day = int.Parse(match.Groups[3].Value);
+        var isBikramSambatDate = year is >= 2000 and <= 2090 && month is >= 1 and <= 12 && day is >= 1 and <= 32;
+
+        var isCalendarDate = DateTime.TryParseExact(value, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out var date);
+        var isFutureBirthDate = isCalendarDate && key == "dateOfBirth" && date > DateTime.UtcNow.Date;
+
+        // Citizenship cards carry Bikram Sambat dates in fields such as dateOfBirthBS, and sometimes under
+        // dateOfBirth itself; BS months run to 32 days
+        if (key.EndsWith("BS", StringComparison.Ordinal)
+            || (string.Equals(documentType, "CitizenshipCard", StringComparison.OrdinalIgnoreCase) && key == "dateOfBirth" && (!isCalendarDate || isFutureBirthDate)))
+        {
+            return isBikramSambatDate ? null : "Not a valid Bikram Sambat date";
+        }
+
+        if (!isCalendarDate)
+        {
+            return "Not a valid calendar date";
+        }
+
+        if (isFutureBirthDate)
+        {
+            return "Date of birth cannot be in the future";
+        }
+        return null;
+    }
+
+    private async Task LogVerificationActionAsync(Guid verificationId, string? userId, string action, string serviceName, string? previousStatus, string? newStatus, string? details = null)
     {
         var log = new VerificationLog
         {
@@ -438,6 +788,7 @@ public class DocumentService : IDocumentService
             ServiceName = serviceName,
             PreviousStatus = previousStatus,
             NewStatus = newStatus,
+            Details = details,
             CreatedAt = DateTime.UtcNow
         };
 
@@ -445,6 +796,55 @@ public class DocumentService : IDocumentService
         await _context.SaveChangesAsync();
     }
 
+    // Each filter becomes an IN over its values
+    private static IQueryable<Verification> ApplyListFilter(IQueryable<Verification> query, VerificationListFilter? filter)
+    {
+        if (filter?.Statuses is { Count: > 0 } statuses)
+        {
+            query = query.Where(v => statuses.Contains(v.Status));
+        }
+
+        if (filter?.DocumentTypes is { Count: > 0 } documentTypes)
+        {
+            query = query.Where(v => documentTypes.Contains(v.DocumentType));
+        }
+
+        if (filter?.Priorities is { Count: > 0 } priorities)
+        {
+            query = query.Where(v => priorities.Contains(v.Priority));
+        }
+
+        return query;
+    }
+
+    // Filters belong on the query before this, so the total counts every match and not just this page
+    private async Task<PaginatedResponse<VerificationDto>> ToPageAsync(IQueryable<Verification> query, int page, int pageSize)
+    {
+        page = Math.Max(page, 1);
+        pageSize = Math.Max(pageSize, 1);
+
+        var totalCount = await query.CountAsync();
+        var verifications = await query
+            .OrderByDescending(v => v.CreatedAt)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync();
+
+        var dtos = new List<VerificationDto>();
+        foreach (var verification in verifications)
+        {
+            dtos.Add(await MapToVerificationDtoAsync(verification));
+        }
+
+        return new PaginatedResponse<VerificationDto>
+        {
+            Items = dtos,
+            TotalCount = totalCount,
+            CurrentPage = page,
+            PageSize = pageSize
+        };
+    }
+
     private async Task<VerificationDto> MapToVerificationDtoAsync(Verification verification)
     {
         var documents = await _context.Documents
@@ -477,8 +877,16 @@ public class DocumentService : IDocumentService
             Priority = verification.Priority,
             FinalDecision = verification.FinalDecision,
             DecisionReason = verification.DecisionReason,
+            ReasonCodes = string.IsNullOrWhiteSpace(verification.DecisionReasonCodes)
+                ? new List<string>()
+                : verification.DecisionReasonCodes.Split(',', StringSplitOptions.RemoveEmptyEntries).ToList(),
             ErrorMessage = verification.ErrorMessage,
             UserActionRequired = verification.UserActionRequired,
+            RequestedDocuments = string.IsNullOrWhiteSpace(verification.RequestedDocuments)
+                ? new List<string>()
+                : verification.RequestedDocuments.Split(',', StringSplitOptions.RemoveEmptyEntries).ToList(),
+            ApplicantName = verification.ApplicantName,
+            ApplicantDateOfBirth = verification.ApplicantDateOfBirth,
             ProcessingStartedAt = verification.ProcessingStartedAt,
             CompletedAt = verification.CompletedAt,
             CreatedAt = verification.CreatedAt,
@@ -527,7 +935,8 @@ public class DocumentService : IDocumentService
             },
             Documents = documentDtos,
             SubmittedBy = verification.SubmittedBy,
-            AssignedTo = verification.AssignedTo
+            AssignedTo = verification.AssignedTo,
+            ClaimedAt = verification.ClaimedAt
         };
     }
 }
\ No newline at end of file
@@ -62,9 +62,9 @@ public class FaceMatchingService : IFaceMatchingService
 
             var stopwatch = System.Diagnostics.Stopwatch.StartNew();
 
-            // Detect faces in both images
-            var idFaceDetected = await DetectFaceAsync(idDocumentPath);
-            var selfieFaceDetected = await DetectFaceAsync(selfiePath);
+            // Detect faces in both images once; the boxes are reused for the embeddings and the stored details
+            var (idFaceDetected, idFaceBox) = await LocateFaceAsync(idDocumentPath);
+            var (selfieFaceDetected, selfieFaceBox) = await LocateFaceAsync(selfiePath);
 
             if (!idFaceDetected || !selfieFaceDetected)
             {
@@ -72,8 +72,8 @@ public class FaceMatchingService : IFaceMatchingService
             }
 
             // Generate face embeddings
-            var idEmbedding = await GenerateFaceEmbeddingAsync(idDocumentPath);
-            var selfieEmbedding = await GenerateFaceEmbeddingAsync(selfiePath);
+            var idEmbedding = await GenerateFaceEmbeddingAsync(idDocumentPath, idFaceBox);
+            var selfieEmbedding = await GenerateFaceEmbeddingAsync(selfiePath, selfieFaceBox);
 
             if (idEmbedding == null || selfieEmbedding == null)
             {
@@ -86,11 +86,11 @@ public class FaceMatchingService : IFaceMatchingService
             // Determine match decision
             var matchDecision = DetermineMatch(similarityScore);
 
-            // Get face detection details (simplified for performance)
+            // Face boxes let reviewers see which regions were compared
             var faceDetectionDetails = new
             {
-                idDocumentFace = new { detected = idFaceDetected },
-                selfieFace = new { detected = selfieFaceDetected }
+                idDocumentFace = new { detected = idFaceDetected, boundingBox = ToBoxDetails(idFaceBox) },
+                selfieFace = new { detected = selfieFaceDetected, boundingBox = ToBoxDetails(selfieFaceBox) }
             };
 
             stopwatch.Stop();
@@ -140,6 +140,18 @@ public class FaceMatchingService : IFaceMatchingService
     }
 
     public async Task<float[]?> GenerateFaceEmbeddingAsync(string imagePath)
+    {
+        if (_faceRecognitionSession == null)
+        {
+            _logger.LogWarning("ONNX face recognition model not loaded. Face embeddings cannot be generated.");
+            return null;
+        }
+
+        var (detected, box) = await DetectFaceBoundingBoxAsync(imagePath);
+        return await GenerateFaceEmbeddingAsync(imagePath, detected ? box : null);
+    }
+
+    private async Task<float[]?> GenerateFaceEmbeddingAsync(string imagePath, Rectangle? faceBox)
     {
         try
         {
@@ -149,14 +161,8 @@ public class FaceMatchingService : IFaceMatchingService
                 return null;
             }
 
-            // Load and preprocess image; crop to detected face if available
+            // Load and preprocess image; crop to the detected face if available
             using var image = await Image.LoadAsync<Rgb24>(imagePath);
-            Rectangle? faceBox = null;
-            var (detected, box) = await DetectFaceBoundingBoxAsync(imagePath);
-            if (detected && box.HasValue)
-            {
-                faceBox = box;
-            }
 
             var processedImage = PreprocessFaceImage(image, faceBox);
 
@@ -429,6 +435,35 @@ public class FaceMatchingService : IFaceMatchingService
         }
     }
 
+    /// <summary>
+    /// Detection result for a comparison: whether the face counts as found, as DetectFaceAsync
+    /// decides it, and where it is when the detector located it.
+    /// </summary>
+    private async Task<(bool detected, Rectangle? box)> LocateFaceAsync(string imagePath)
+    {
+        try
+        {
+            var (found, box) = await DetectFaceBoundingBoxAsync(imagePath);
+
+            // Without the embedding model detection is not robust enough to reject an image
+            return (_faceRecognitionSession == null || box.HasValue, found ? box : null);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error detecting face in: {ImagePath}", imagePath);
+            // If detection fails but model exists, try to generate embedding anyway
+            return (_faceRecognitionSession != null, null);
+        }
+    }
+
+    /// <summary>
+    /// Camel-cased box for the stored details JSON, which is returned to clients as-is.
+    /// </summary>
+    private static object? ToBoxDetails(Rectangle? box)
+    {
+        return box == null ? null : new { x = box.Value.X, y = box.Value.Y, width = box.Value.Width, height = box.Value.Height };
+    }
+
     private bool DetermineMatch(float similarityScore)
     {
         return similarityScore >= _similarityThreshold;
@@ -141,6 +141,13 @@ public class FileStorageService : IFileStorageService
         return documentPath;
     }
 
+    public bool IsWithinStorage(string filePath)
+    {
+        var basePath = Path.GetFullPath(_configuration["FileStorage:BasePath"] ?? "./uploads");
+        var root = Path.EndsInDirectorySeparator(basePath) ? basePath : basePath + Path.DirectorySeparatorChar;
+        return Path.GetFullPath(filePath).StartsWith(root, StringComparison.Ordinal);
+    }
+
     private async Task ProcessImageAsync(string filePath)
     {
         try
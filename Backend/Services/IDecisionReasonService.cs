@@ -0,0 +1,9 @@
+using DocumentVerification.API.Models.DTOs.Verification;
+
+namespace DocumentVerification.API.Services;
+
+public interface IDecisionReasonService
+{
+    IReadOnlyList<DecisionReasonCodeDto> GetReasonCodes();
+    void ValidateReasonCodes(string status, IReadOnlyCollection<string> reasonCodes, string? reason);
+}
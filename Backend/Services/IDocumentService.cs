@@ -1,3 +1,4 @@
+using DocumentVerification.API.Models.DTOs;
 using DocumentVerification.API.Models.DTOs.Verification;
 
 namespace DocumentVerification.API.Services;
@@ -6,9 +7,24 @@ public interface IDocumentService
 {
     Task<VerificationDto> CreateVerificationAsync(CreateVerificationRequest request, string userId);
     Task<VerificationDto?> GetVerificationByIdAsync(Guid id);
-    Task<IEnumerable<VerificationDto>> GetUserVerificationsAsync(string userId, int page = 1, int pageSize = 20);
-    Task<IEnumerable<VerificationDto>> GetAllVerificationsAsync(int page = 1, int pageSize = 20, string? status = null);
-    Task<VerificationDto> UpdateVerificationStatusAsync(Guid id, string status, string? reason = null);
+    Task<PaginatedResponse<VerificationDto>> GetUserVerificationsAsync(
+        string userId,
+        int page = 1,
+        int pageSize = 20,
+        VerificationListFilter? filter = null);
+    Task<PaginatedResponse<VerificationDto>> GetAllVerificationsAsync(
+        int page = 1,
+        int pageSize = 20,
+        VerificationListFilter? filter = null);
+    Task<VerificationDto> UpdateVerificationStatusAsync(
+        Guid id,
+        string status,
+        string? reason = null,
+        IReadOnlyCollection<string>? reasonCodes = null,
+        IReadOnlyCollection<FieldCorrectionDto>? corrections = null,
+        string? userId = null);
+    Task<VerificationDto> ResubmitDocumentsAsync(Guid id, string userId, ResubmitDocumentsRequest request);
     Task<byte[]> GetDocumentFileAsync(Guid documentId);
+    Task<byte[]?> GetPortraitFileAsync(Guid verificationId);
     Task<bool> DeleteVerificationAsync(Guid id);
 }
\ No newline at end of file
@@ -8,4 +8,5 @@ public interface IFileStorageService
     Task<(bool isValid, string? error)> ValidateFileAsync(IFormFile file, string[] allowedTypes, long maxSizeMB);
     string GenerateUniqueFileName(string originalFileName, string documentType);
     string GetUploadPath(Guid verificationId, string documentType);
+    bool IsWithinStorage(string filePath);
 }
\ No newline at end of file
@@ -11,6 +11,10 @@ public interface IWorkflowService
     Task<VerificationDto> MakeFinalDecisionAsync(Guid verificationId);
     Task<bool> NeedsManualReviewAsync(Guid verificationId);
     Task<VerificationDto> AssignToOfficerAsync(Guid verificationId, string officerId);
+    Task<VerificationDto> ClaimAsync(Guid verificationId, string officerId);
+    Task<VerificationDto> ReleaseClaimAsync(Guid verificationId, string officerId);
+    Task EnsureClaimHeldAsync(Guid verificationId, string? officerId);
+    Task<VerificationDto> RequestResubmissionAsync(Guid verificationId, string? officerId, IReadOnlyCollection<string> documentTypes, string? message);
     Task<WorkflowStatsDto> GetWorkflowStatsAsync(string? userId, bool isAdmin);
     Task<int> ResetProcessingVerificationsAsync();
 }
\ No newline at end of file
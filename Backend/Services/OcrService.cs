@@ -21,6 +21,9 @@ public class OcrService : IOcrService
     private readonly string _tesseractDataPath;
     private readonly string _tesseractLanguage;
 
+    // Longest run of OCR words searched when locating a field's value on the image
+    private const int MaxWordsPerField = 12;
+
     public OcrService(
         DocumentVerificationDbContext context,
         IConfiguration configuration,
@@ -230,6 +233,7 @@ public class OcrService : IOcrService
 
                     var rawText = page.GetText();
                     var confidence = page.GetMeanConfidence();
+                    var words = await ReadWordBoxesAsync(page, imagePath, img.Width, img.Height);
                     
                     // Try MRZ-specific extraction if confidence is low or for passports
                     if (documentType.ToLowerInvariant() == "passport" && (confidence < 70 || string.IsNullOrWhiteSpace(rawText)))
@@ -264,6 +268,7 @@ public class OcrService : IOcrService
                     _logger.LogInformation("OCR confidence score: {Confidence}, Processing time: {TimeMs}ms", confidence, stopwatch.ElapsedMilliseconds);
 
                     var extractedFields = await ParseExtractedFieldsAsync(rawText, documentType);
+                    AttachWordBoxes(extractedFields, words);
 
                     // Attempt to extract portrait image from passport
                     var (portraitPath, portraitBox) = await ExtractPortraitImageAsync(imagePath, documentType);
@@ -838,14 +843,12 @@ public class OcrService : IOcrService
             {
                 Value = $"{passportPrefix}{passportNumber}",
                 Confidence = 0.95m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 60, Width = 100, Height = 20 }
             };
             
             fields["nationality"] = new ExtractedFieldDto
             {
                 Value = countryCode,
                 Confidence = 0.92m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 20, Width = 100, Height = 20 }
             };
             
             // Parse date of birth
@@ -855,7 +858,6 @@ public class OcrService : IOcrService
                 {
                     Value = birthDate.ToString("yyyy-MM-dd"),
                     Confidence = 0.96m,
-                    BoundingBox = new BoundingBoxDto { X = 0, Y = 80, Width = 100, Height = 20 },
                     Format = "yyyy-MM-dd"
                 };
             }
@@ -867,7 +869,6 @@ public class OcrService : IOcrService
                 {
                     Value = sex == "M" ? "Male" : "Female",
                     Confidence = 0.98m,
-                    BoundingBox = new BoundingBoxDto { X = 0, Y = 85, Width = 100, Height = 20 }
                 };
             }
             
@@ -878,7 +879,6 @@ public class OcrService : IOcrService
                 {
                     Value = expiryDate.ToString("yyyy-MM-dd"),
                     Confidence = 0.96m,
-                    BoundingBox = new BoundingBoxDto { X = 0, Y = 100, Width = 100, Height = 20 },
                     Format = "yyyy-MM-dd"
                 };
             }
@@ -890,7 +890,6 @@ public class OcrService : IOcrService
                 {
                     Value = personalNumber,
                     Confidence = 0.90m,
-                    BoundingBox = new BoundingBoxDto { X = 0, Y = 110, Width = 100, Height = 20 }
                 };
             }
             
@@ -898,7 +897,6 @@ public class OcrService : IOcrService
             {
                 Value = "Passport",
                 Confidence = 0.95m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 0, Width = 100, Height = 20 }
             };
             
             _logger.LogInformation("Single-line MRZ pattern matched successfully for passport");
@@ -910,14 +908,12 @@ public class OcrService : IOcrService
             {
                 Value = "Passport",
                 Confidence = 0.95m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 0, Width = 100, Height = 20 }
             };
 
             fields["nationality"] = new ExtractedFieldDto
             {
                 Value = mrzMatch.Groups[1].Value.Trim('<'),
                 Confidence = 0.92m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 20, Width = 100, Height = 20 }
             };
 
             // Extract surname and given names
@@ -929,21 +925,18 @@ public class OcrService : IOcrService
             {
                 Value = surname,
                 Confidence = 0.90m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 30, Width = 100, Height = 20 }
             };
 
             fields["givenNames"] = new ExtractedFieldDto
             {
                 Value = givenNames,
                 Confidence = 0.90m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 35, Width = 100, Height = 20 }
             };
 
             fields["fullName"] = new ExtractedFieldDto
             {
                 Value = fullName,
                 Confidence = 0.88m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 40, Width = 100, Height = 20 }
             };
 
             // Extract passport number (first 9 characters of line 2)
@@ -952,7 +945,6 @@ public class OcrService : IOcrService
             {
                 Value = passportNumber,
                 Confidence = 0.95m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 60, Width = 100, Height = 20 }
             };
 
             // Parse date of birth (YYMMDD format) - Group 3
@@ -963,7 +955,6 @@ public class OcrService : IOcrService
                 {
                     Value = birthDate.ToString("yyyy-MM-dd"),
                     Confidence = 0.96m,
-                    BoundingBox = new BoundingBoxDto { X = 0, Y = 80, Width = 100, Height = 20 },
                     Format = "yyyy-MM-dd"
                 };
             }
@@ -976,7 +967,6 @@ public class OcrService : IOcrService
                 {
                     Value = sex == "M" ? "Male" : "Female",
                     Confidence = 0.98m,
-                    BoundingBox = new BoundingBoxDto { X = 0, Y = 85, Width = 100, Height = 20 }
                 };
             }
 
@@ -988,7 +978,6 @@ public class OcrService : IOcrService
                 {
                     Value = expiryDate.ToString("yyyy-MM-dd"),
                     Confidence = 0.96m,
-                    BoundingBox = new BoundingBoxDto { X = 0, Y = 100, Width = 100, Height = 20 },
                     Format = "yyyy-MM-dd"
                 };
             }
@@ -1005,7 +994,6 @@ public class OcrService : IOcrService
                 {
                     Value = personalNumber,
                     Confidence = 0.90m,
-                    BoundingBox = new BoundingBoxDto { X = 0, Y = 110, Width = 100, Height = 20 }
                 };
             }
             
@@ -1184,7 +1172,6 @@ public class OcrService : IOcrService
                         {
                             Value = value,
                             Confidence = kvp.Value.confidence,
-                            BoundingBox = new BoundingBoxDto { X = 0, Y = 0, Width = 100, Height = 20 }
                         };
                         _logger.LogDebug("Extracted field {FieldName} = {Value} from visible text", kvp.Key, value);
                         break; // Use first successful match
@@ -1204,7 +1191,6 @@ public class OcrService : IOcrService
             {
                 Value = fullName,
                 Confidence = Math.Max(fields["surname"].Confidence, fields["givenNames"].Confidence),
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 0, Width = 100, Height = 20 }
             };
         }
         
@@ -1360,7 +1346,6 @@ public class OcrService : IOcrService
             {
                 Value = $"{fields["surname"].Value} {fields["givenNames"].Value}".Trim(),
                 Confidence = 0.85m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 0, Width = 100, Height = 20 }
             };
         }
         else if (!fields.ContainsKey("fullName"))
@@ -1480,7 +1465,6 @@ public class OcrService : IOcrService
             {
                 Value = emailMatch.Value,
                 Confidence = 0.85m,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 0, Width = 100, Height = 20 }
             };
         }
 
@@ -1497,7 +1481,6 @@ public class OcrService : IOcrService
             {
                 Value = match.Groups[group].Value.Trim(),
                 Confidence = confidence,
-                BoundingBox = new BoundingBoxDto { X = 0, Y = 0, Width = 100, Height = 20 }
             };
         }
     }
@@ -1528,6 +1511,105 @@ public class OcrService : IOcrService
         return text;
     }
 
+    /// <summary>
+    /// Reads the recognised words with their boxes, scaled from the OCR input (which may be
+    /// the upscaled, preprocessed copy) back to the pixel coordinates of the stored image.
+    /// </summary>
+    private async Task<List<OcrWord>> ReadWordBoxesAsync(Page page, string imagePath, int ocrWidth, int ocrHeight)
+    {
+        var words = new List<OcrWord>();
+        try
+        {
+            var stored = await Image.IdentifyAsync(imagePath);
+            var scaleX = stored.Width / (double)ocrWidth;
+            var scaleY = stored.Height / (double)ocrHeight;
+
+            using var iterator = page.GetIterator();
+            iterator.Begin();
+            do
+            {
+                var text = iterator.GetText(PageIteratorLevel.Word)?.Trim();
+                if (string.IsNullOrEmpty(text) || !iterator.TryGetBoundingBox(PageIteratorLevel.Word, out var bounds))
+                    continue;
+
+                words.Add(new OcrWord(
+                    text,
+                    (int)Math.Round(bounds.X1 * scaleX),
+                    (int)Math.Round(bounds.Y1 * scaleY),
+                    (int)Math.Round(bounds.Width * scaleX),
+                    (int)Math.Round(bounds.Height * scaleY)));
+            }
+            while (iterator.Next(PageIteratorLevel.Word));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to read OCR word boxes: {ImagePath}", imagePath);
+        }
+
+        return words;
+    }
+
+    /// <summary>
+    /// Gives each extracted field the box of the words its value was read from. Values that
+    /// were reformatted after reading (e.g. dates) or came from the MRZ crop may not be found
+    /// and are left without a box rather than given a guessed one.
+    /// </summary>
+    private static void AttachWordBoxes(Dictionary<string, ExtractedFieldDto> fields, List<OcrWord> words)
+    {
+        var normalizedWords = words.Select(w => NormalizeForBoxMatch(w.Text)).ToList();
+
+        foreach (var field in fields.Values)
+        {
+            var target = NormalizeForBoxMatch(field.Value);
+            if (field.BoundingBox != null || target.Length < 2)
+                continue;
+
+            field.BoundingBox = FindWordRunBox(words, normalizedWords, target);
+        }
+    }
+
+    /// <summary>
+    /// Box around the shortest run of consecutive words whose text contains the value.
+    /// </summary>
+    private static BoundingBoxDto? FindWordRunBox(List<OcrWord> words, List<string> normalizedWords, string target)
+    {
+        for (var start = 0; start < words.Count; start++)
+        {
+            var joined = string.Empty;
+            for (var end = start; end < words.Count && end - start < MaxWordsPerField; end++)
+            {
+                joined += normalizedWords[end];
+                if (!joined.Contains(target, StringComparison.Ordinal))
+                    continue;
+
+                // Drop leading words, such as a field label, that the value does not need
+                var first = start;
+                while (first < end && string.Concat(normalizedWords.Skip(first + 1).Take(end - first)).Contains(target, StringComparison.Ordinal))
+                    first++;
+
+                var run = words.Skip(first).Take(end - first + 1).ToList();
+                var left = run.Min(w => w.X);
+                var top = run.Min(w => w.Y);
+                return new BoundingBoxDto
+                {
+                    X = left,
+                    Y = top,
+                    Width = run.Max(w => w.X + w.Width) - left,
+                    Height = run.Max(w => w.Y + w.Height) - top
+                };
+            }
+        }
+
+        return null;
+    }
+
+    private static string NormalizeForBoxMatch(string? text)
+    {
+        return string.IsNullOrEmpty(text)
+            ? string.Empty
+            : new string(text.Where(char.IsLetterOrDigit).Select(char.ToUpperInvariant).ToArray());
+    }
+
     private bool IsValidDate(string dateString)
     {
         if (string.IsNullOrWhiteSpace(dateString))
@@ -1546,4 +1628,6 @@ public class OcrService : IOcrService
         
         return formats.Any(format => DateTime.TryParseExact(dateString, format, null, System.Globalization.DateTimeStyles.None, out _));
     }
-}
\ No newline at end of file
+
+    private readonly record struct OcrWord(string Text, int X, int Y, int Width, int Height);
+}
@@ -320,6 +320,7 @@ public class WorkflowService : IWorkflowService
             }
 
             verification.AssignedTo = officerId;
+            verification.ClaimedAt = DateTime.UtcNow;
             verification.UpdatedAt = DateTime.UtcNow;
 
             await _context.SaveChangesAsync();
@@ -335,6 +336,198 @@ public class WorkflowService : IWorkflowService
         }
     }
 
+    public async Task<VerificationDto> ClaimAsync(Guid verificationId, string officerId)
+    {
+        try
+        {
+            var current = await _context.Verifications
+                .Where(v => v.Id == verificationId)
+                .Select(v => new { v.AssignedTo, v.Status })
+                .FirstOrDefaultAsync();
+            if (current == null)
+            {
+                throw new InvalidOperationException("Verification not found");
+            }
+
+            if (current.Status != ReviewableStatus)
+            {
+                throw new AlreadyDecidedException(current.Status);
+            }
+
+            var now = DateTime.UtcNow;
+            var lapsedBefore = now - ClaimTimeout;
+
+            // A single conditional update, so two officers claiming at once cannot both win
+            // and a case decided in the meantime cannot be claimed again
+            var claimed = await _context.Verifications
+                .Where(v => v.Id == verificationId
+                    && v.Status == ReviewableStatus
+                    && (v.AssignedTo == null || v.AssignedTo == officerId || v.ClaimedAt == null || v.ClaimedAt < lapsedBefore))
+                .ExecuteUpdateAsync(s => s
+                    .SetProperty(v => v.AssignedTo, officerId)
+                    .SetProperty(v => v.ClaimedAt, now)
+                    .SetProperty(v => v.UpdatedAt, now));
+
+            if (claimed == 0)
+            {
+                var latest = await _context.Verifications
+                    .Where(v => v.Id == verificationId)
+                    .Select(v => new { v.AssignedTo, v.Status })
+                    .FirstAsync();
+                if (latest.Status != ReviewableStatus)
+                {
+                    throw new AlreadyDecidedException(latest.Status);
+                }
+
+                throw new ClaimConflictException(latest.AssignedTo);
+            }
+
+            // Renewals keep the claim alive every few minutes; only a change of hands is worth a log entry
+            if (current.AssignedTo != officerId)
+            {
+                await LogWorkflowActionAsync(verificationId, "ClaimedByOfficer", "WorkflowService", null, current.Status);
+            }
+
+            return await _documentService.GetVerificationByIdAsync(verificationId) ?? throw new InvalidOperationException("Failed to retrieve verification");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error claiming verification: {VerificationId}, Officer: {OfficerId}", verificationId, officerId);
+            throw;
+        }
+    }
+
+    public async Task<VerificationDto> ReleaseClaimAsync(Guid verificationId, string officerId)
+    {
+        try
+        {
+            var now = DateTime.UtcNow;
+
+            // Only the holder's own claim is cleared; one that lapsed and was picked up by someone else stays
+            var released = await _context.Verifications
+                .Where(v => v.Id == verificationId && v.AssignedTo == officerId)
+                .ExecuteUpdateAsync(s => s
+                    .SetProperty(v => v.AssignedTo, (string?)null)
+                    .SetProperty(v => v.ClaimedAt, (DateTime?)null)
+                    .SetProperty(v => v.UpdatedAt, now));
+
+            var verification = await _documentService.GetVerificationByIdAsync(verificationId)
+                ?? throw new InvalidOperationException("Verification not found");
+
+            if (released > 0)
+            {
+                await LogWorkflowActionAsync(verificationId, "ReleasedByOfficer", "WorkflowService", null, verification.Status);
+            }
+
+            return verification;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error releasing verification: {VerificationId}, Officer: {OfficerId}", verificationId, officerId);
+            throw;
+        }
+    }
+
+    public async Task EnsureClaimHeldAsync(Guid verificationId, string? officerId)
+    {
+        var verification = await _context.Verifications.FindAsync(verificationId);
+        if (verification == null)
+        {
+            throw new InvalidOperationException("Verification not found");
+        }
+
+        EnsureClaimedBy(verification, officerId);
+    }
+
+    public async Task<VerificationDto> RequestResubmissionAsync(Guid verificationId, string? officerId, IReadOnlyCollection<string> documentTypes, string? message)
+    {
+        try
+        {
+            var verification = await _context.Verifications.FindAsync(verificationId);
+            if (verification == null)
+            {
+                throw new InvalidOperationException("Verification not found");
+            }
+
+            EnsureClaimedBy(verification, officerId);
+
+            if (documentTypes.Count == 0)
+            {
+                throw new InvalidOperationException("Select at least one document to resubmit");
+            }
+
+            var unknown = documentTypes.Except(ResubmittableDocumentTypes).ToList();
+            if (unknown.Count > 0)
+            {
+                throw new InvalidOperationException($"Unknown document type: {string.Join(", ", unknown)}");
+            }
+
+            if (documentTypes.Contains("IDDocumentBack")
+                && !string.Equals(verification.DocumentType, "CitizenshipCard", StringComparison.OrdinalIgnoreCase))
+            {
+                throw new InvalidOperationException("Only citizenship cards have a back side to resubmit");
+            }
+
+            var previousStatus = verification.Status;
+            var requestedDocuments = string.Join(",", documentTypes.Distinct());
+            var userActionRequired = string.IsNullOrWhiteSpace(message)
+                ? "Please upload the requested documents again."
+                : message.Trim();
+
+            // Conditional on the case still awaiting review, so it cannot race a decision
+            var updated = await _context.Verifications
+                .Where(v => v.Id == verificationId && v.Status == ReviewableStatus)
+                .ExecuteUpdateAsync(s => s
+                    .SetProperty(v => v.Status, "ActionRequired")
+                    .SetProperty(v => v.RequestedDocuments, requestedDocuments)
+                    .SetProperty(v => v.UserActionRequired, userActionRequired)
+                    .SetProperty(v => v.ErrorMessage, (string?)null)
+                    .SetProperty(v => v.FinalDecision, (string?)null)
+                    .SetProperty(v => v.CompletedAt, (DateTime?)null)
+                    .SetProperty(v => v.UpdatedAt, DateTime.UtcNow));
+
+            // The tracked entity does not see the update; reload it so the returned DTO does
+            await _context.Entry(verification).ReloadAsync();
+            if (updated == 0)
+            {
+                throw new AlreadyDecidedException(verification.Status);
+            }
+
+            await LogWorkflowActionAsync(verificationId, "ResubmissionRequested", "WorkflowService", previousStatus, verification.Status);
+
+            return await _documentService.GetVerificationByIdAsync(verificationId) ?? throw new InvalidOperationException("Failed to retrieve verification");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error requesting resubmission for verification: {VerificationId}", verificationId);
+            throw;
+        }
+    }
+
+    private static readonly string[] ResubmittableDocumentTypes = { "IDDocument", "IDDocumentBack", "Selfie" };
+
+    // Claims, decisions and resubmission requests are only accepted while a case awaits review
+    private const string ReviewableStatus = "ReviewNeeded";
+
+    // A claim nobody has renewed for this long is treated as abandoned
+    private static readonly TimeSpan ClaimTimeout = TimeSpan.FromMinutes(15);
+
+    private static void EnsureClaimedBy(Verification verification, string? officerId)
+    {
+        if (verification.Status != ReviewableStatus)
+        {
+            throw new AlreadyDecidedException(verification.Status);
+        }
+
+        var claimLive = verification.AssignedTo != null
+            && verification.ClaimedAt > DateTime.UtcNow - ClaimTimeout;
+
+        if (!claimLive || verification.AssignedTo != officerId)
+        {
+            throw new ClaimConflictException(claimLive ? verification.AssignedTo : null);
+        }
+    }
+
     private string CalculateFinalDecision(
         AuthenticityScore? authenticityScore,
         FaceMatchResult? faceMatchResult,
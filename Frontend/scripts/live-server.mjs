@@ -0,0 +1,449 @@
+/**
+ * Stand-in live-update server for local development. It speaks all three
+ * transports the frontend negotiates (WebSocket, Server-Sent Events,
+ * long-polling) with no dependencies beyond Node itself, so the fallback can
+ * be tried by hand; nothing runs it automatically.
+ *
+ *   npm run live-server
+ *   NEXT_PUBLIC_WS_URL=ws://localhost:5001/ws npm run dev
+ *
+ * Disable transports to reproduce networks that strip upgrades:
+ *
+ *   LIVE_SERVER_TRANSPORTS=sse,longpoll npm run live-server
+ *
+ * Push events to connected clients:
+ *
+ *   curl -X POST 'localhost:5001/ws/simulate/verification/<id>?status=ReviewNeeded&priority=High'
+ *   curl -X POST localhost:5001/ws/simulate/notification \
+ *     -d '{"title":"Review needed","message":"A verification needs review","severity":"warning"}'
+ *
+ * Any non-empty token is accepted; this server does no real authentication.
+ */
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.LIVE_SERVER_PORT) || 5001;
+const ALLOWED_ORIGIN = process.env.LIVE_SERVER_ORIGIN || 'http://localhost:3000';
+const ENABLED_TRANSPORTS = new Set(
+  (process.env.LIVE_SERVER_TRANSPORTS || 'websocket,sse,longpoll').split(',').map((kind) => kind.trim())
+);
+
+const BASE_PATH = '/ws';
+const LONG_POLL_HOLD_MS = 25000;
+// Long-poll connections that stop polling are forgotten after this
+const LONG_POLL_IDLE_MS = 60000;
+const SSE_KEEPALIVE_MS = 15000;
+const SIMULATION_STEP_MS = 600;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Room of officers receiving every queue-bound update
+const REVIEW_QUEUE_ROOM = 'review_queue';
+
+/** @type {Map<string, { transport: string, rooms: Set<string>, push: (message: object) => void, close: () => void }>} */
+const connections = new Map();
+
+const createMessage = (type, data) => ({
+  type,
+  data,
+  timestamp: new Date().toISOString(),
+  id: randomUUID(),
+});
+
+function log(...args) {
+  console.log(new Date().toISOString(), ...args);
+}
+
+function register(connectionId, transport, push, close) {
+  connections.get(connectionId)?.close();
+  const connection = { transport, rooms: new Set(), push, close };
+  connections.set(connectionId, connection);
+  log(`+ ${transport} ${connectionId} (${connections.size} open)`);
+  return connection;
+}
+
+function unregister(connectionId, connection) {
+  if (connections.get(connectionId) === connection) {
+    connections.delete(connectionId);
+    log(`- ${connection.transport} ${connectionId} (${connections.size} open)`);
+  }
+}
+
+// Messages from clients, whichever transport they arrived on
+function handleClientMessage(connection, message) {
+  switch (message?.type) {
+    case 'ping':
+      connection.push(createMessage('pong', {}));
+      break;
+    case 'join_verification':
+      connection.rooms.add(message.data.verificationId);
+      break;
+    case 'leave_verification':
+      connection.rooms.delete(message.data.verificationId);
+      break;
+    case 'join_review_queue':
+      connection.rooms.add(REVIEW_QUEUE_ROOM);
+      break;
+    case 'leave_review_queue':
+      connection.rooms.delete(REVIEW_QUEUE_ROOM);
+      break;
+    case 'authenticate':
+      // Token rotation; nothing to check in a stand-in
+      break;
+    default:
+      log('Unhandled client message:', message?.type);
+  }
+}
+
+function broadcast(message, ...rooms) {
+  for (const connection of connections.values()) {
+    if (rooms.length === 0 || rooms.some((room) => connection.rooms.has(room))) {
+      connection.push(message);
+    }
+  }
+}
+
+// Walk a verification through the workflow stages, as the backend reports them
+function simulateVerification(verificationId, { status, priority, assignedTo }) {
+  const steps = [];
+  for (const stage of ['ocr', 'aianalysis', 'facematching', 'decision']) {
+    for (const progress of [0, 50, 100]) {
+      steps.push({ verificationId, status: 'Processing', stage, progress, priority });
+    }
+  }
+  steps.push({ verificationId, status, priority, assignedTo });
+
+  steps.forEach((data, index) => {
+    // Officers hear about the outcome; the applicant's room gets every step
+    const rooms = index === steps.length - 1 ? [verificationId, REVIEW_QUEUE_ROOM] : [verificationId];
+    setTimeout(() => broadcast(createMessage('verification_update', data), ...rooms), index * SIMULATION_STEP_MS);
+  });
+}
+
+function corsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  };
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { ...corsHeaders(), 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function getToken(req, url) {
+  const header = req.headers.authorization ?? '';
+  return header.startsWith('Bearer ') ? header.slice(7) : url.searchParams.get('access_token');
+}
+
+// --- Server-Sent Events --------------------------------------------------
+
+function handleEvents(req, res, connectionId) {
+  res.writeHead(200, {
+    ...corsHeaders(),
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEPALIVE_MS);
+  const connection = register(
+    connectionId,
+    'sse',
+    (message) => res.write(`data: ${JSON.stringify(message)}\n\n`),
+    () => res.end()
+  );
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    unregister(connectionId, connection);
+  });
+}
+
+// --- Long-polling --------------------------------------------------------
+
+function handlePoll(req, res, connectionId, cursor) {
+  let connection = connections.get(connectionId);
+
+  // After a restart the client must reconnect so it re-joins its rooms
+  if (cursor && connection?.transport !== 'longpoll') {
+    sendJson(res, 404, { error: 'Unknown connection' });
+    return;
+  }
+
+  // The first poll of a connection is answered at once and acts as the handshake
+  if (!cursor) {
+    const queue = [];
+    let pending = null;
+    let idleTimer = null;
+    let sequence = 0;
+
+    const flush = () => {
+      if (!pending || queue.length === 0) return;
+      const { res: waiting, timer } = pending;
+      pending = null;
+      clearTimeout(timer);
+      sequence += queue.length;
+      sendJson(waiting, 200, { messages: queue.splice(0), cursor: String(sequence) });
+    };
+
+    connection = register(
+      connectionId,
+      'longpoll',
+      (message) => {
+        queue.push(message);
+        flush();
+      },
+      () => {
+        clearTimeout(idleTimer);
+        if (pending) {
+          clearTimeout(pending.timer);
+          sendJson(pending.res, 204);
+          pending = null;
+        }
+      }
+    );
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => unregister(connectionId, connection), LONG_POLL_IDLE_MS);
+    };
+    connection.hold = (waiting) => {
+      resetIdleTimer();
+
+      if (pending) {
+        clearTimeout(pending.timer);
+        sendJson(pending.res, 204);
+      }
+      const timer = setTimeout(() => {
+        if (pending?.res === waiting) {
+          pending = null;
+          sendJson(waiting, 204);
+        }
+      }, LONG_POLL_HOLD_MS);
+      pending = { res: waiting, timer };
+      flush();
+    };
+
+    resetIdleTimer();
+    sendJson(res, 200, { messages: [], cursor: '0' });
+    return;
+  }
+
+  connection.hold(res);
+}
+
+// --- WebSocket (RFC 6455, text frames only) ------------------------------
+
+function encodeFrame(opcode, payload = Buffer.alloc(0)) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Returns the complete frames in `buffer` and whatever bytes remain
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length - offset < headerLength + maskLength + length) break;
+
+    const mask = buffer.subarray(offset + headerLength, offset + headerLength + maskLength);
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, offset + headerLength + maskLength + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+    }
+
+    frames.push({ opcode, payload });
+    offset += headerLength + maskLength + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function handleUpgrade(req, socket, connectionId) {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+
+  const connection = register(
+    connectionId,
+    'websocket',
+    (message) => socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message)))),
+    () => socket.end(encodeFrame(0x8))
+  );
+
+  let buffered = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([buffered, chunk]));
+    buffered = rest;
+
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x1) {
+        try {
+          handleClientMessage(connection, JSON.parse(payload.toString('utf8')));
+        } catch {
+          log('Ignoring malformed WebSocket message');
+        }
+      } else if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, payload.subarray(0, 2)));
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      }
+    }
+  });
+  socket.on('close', () => unregister(connectionId, connection));
+  socket.on('error', () => unregister(connectionId, connection));
+}
+
+// --- HTTP routing --------------------------------------------------------
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  const path = url.pathname.replace(/\/$/, '');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders());
+    res.end();
+    return;
+  }
+
+  try {
+    if (req.method === 'POST' && path.startsWith(`${BASE_PATH}/simulate/verification/`)) {
+      const verificationId = decodeURIComponent(path.slice(`${BASE_PATH}/simulate/verification/`.length));
+      simulateVerification(verificationId, {
+        status: url.searchParams.get('status') || 'ReviewNeeded',
+        priority: url.searchParams.get('priority') || 'Normal',
+        assignedTo: url.searchParams.get('assignedTo') || undefined,
+      });
+      sendJson(res, 202, { verificationId });
+      return;
+    }
+
+    if (req.method === 'POST' && path === `${BASE_PATH}/simulate/notification`) {
+      const body = await readBody(req);
+      broadcast(createMessage('notification', {
+        title: body.title ?? 'Notification',
+        message: body.message ?? '',
+        severity: body.severity ?? 'info',
+        verificationId: body.verificationId,
+        priority: body.priority,
+      }));
+      sendJson(res, 202, { delivered: connections.size });
+      return;
+    }
+
+    const connectionId = url.searchParams.get('connectionId');
+    if (!connectionId) {
+      sendJson(res, 400, { error: 'connectionId is required' });
+      return;
+    }
+    if (!getToken(req, url)) {
+      sendJson(res, 401, { error: 'Missing access token' });
+      return;
+    }
+
+    if (req.method === 'GET' && path === `${BASE_PATH}/events` && ENABLED_TRANSPORTS.has('sse')) {
+      handleEvents(req, res, connectionId);
+      return;
+    }
+
+    if (req.method === 'GET' && path === `${BASE_PATH}/poll` && ENABLED_TRANSPORTS.has('longpoll')) {
+      handlePoll(req, res, connectionId, url.searchParams.get('cursor'));
+      return;
+    }
+
+    if (req.method === 'POST' && path === `${BASE_PATH}/send`) {
+      const connection = connections.get(connectionId);
+      if (!connection) {
+        sendJson(res, 404, { error: 'Unknown connection' });
+        return;
+      }
+      handleClientMessage(connection, await readBody(req));
+      sendJson(res, 204);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  } catch (error) {
+    sendJson(res, 400, { error: error instanceof Error ? error.message : 'Bad request' });
+  }
+});
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  const connectionId = url.searchParams.get('connectionId') ?? randomUUID();
+
+  // A refused upgrade looks to the browser like a proxy stripping it
+  if (url.pathname !== BASE_PATH || !ENABLED_TRANSPORTS.has('websocket') || !getToken(req, url)) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+
+  handleUpgrade(req, socket, connectionId);
+});
+
+server.listen(PORT, () => {
+  log(`Live stand-in server on http://localhost:${PORT}${BASE_PATH} (${[...ENABLED_TRANSPORTS].join(', ')})`);
+});
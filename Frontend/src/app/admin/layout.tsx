@@ -0,0 +1,6 @@
+import RequireRole from '@/components/auth/require-role';
+import { ADMIN_ROLE } from '@/lib/auth/route-access';
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole roles={[ADMIN_ROLE]}>{children}</RequireRole>;
+}
@@ -9,8 +9,10 @@ export default function Home() {
 
   useEffect(() => {
     const checkAuth = async () => {
-      const isAuthenticated = authService.isAuthenticated();
-      if (isAuthenticated) {
+      // Resolves the session even when only a refresh cookie survived the reload
+      // Offline: keep a stored session and let the dashboard retry
+      const signedIn = await authService.getValidToken().then(Boolean, () => authService.isAuthenticated());
+      if (signedIn) {
         router.push('/dashboard');
       } else {
         router.push('/auth/login');
@@ -1,12 +1,45 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import DashboardLayout from '@/components/layout/dashboard-layout';
-import { VerificationDto } from '@/types/shared';
+import { ResubmittableDocument, VerificationDto, VerificationStatus } from '@/types/shared';
 import { verificationService } from '@/lib/api/verification-service';
+import { AlreadyDecidedError, ApiError, ClaimConflictError } from '@/lib/api/errors';
+import { reviewClaimService, useReviewClaim } from '@/lib/review/review-claims';
+import { useReasonCodes, validateReasonSelection } from '@/lib/verification/reason-codes';
+import {
+  ReviewShortcutAction,
+  ReviewShortcutHandlers,
+  claimNextCase,
+  useQueueNeighbours,
+  useReviewShortcuts,
+  useWorkstationMode,
+} from '@/lib/review/workstation';
 import { Button } from '@/components/ui/button';
-import { authService } from '@/lib/auth/auth-service';
+import ClaimStatus from '@/components/review/claim-status';
+import ShortcutHelp from '@/components/review/shortcut-help';
+import ReasonCodePicker from '@/components/review/reason-code-picker';
+import ResubmissionRequest from '@/components/review/resubmission-request';
+import FaceComparison from '@/components/review/face-comparison';
+import OcrFieldViewer from '@/components/review/ocr-field-viewer';
+import RawTextDialog from '@/components/review/raw-text-dialog';
+import DataReconciliation from '@/components/verification/data-reconciliation';
+import MrzSummary from '@/components/verification/mrz-summary';
+
+const MIN_DOCUMENT_ZOOM = 1;
+const MAX_DOCUMENT_ZOOM = 3;
+const DOCUMENT_ZOOM_STEP = 0.5;
+// Height of a document preview at 1x, in rem
+const DOCUMENT_PREVIEW_HEIGHT_REM = 12;
+
+const getDecisionError = (err: unknown, fallback: string) => {
+  if (err instanceof ClaimConflictError) return err.message;
+  if (err instanceof AlreadyDecidedError) {
+    return 'This verification has already been decided by another officer. Reload to see the outcome.';
+  }
+  return err instanceof Error ? err.message : fallback;
+};
 
 export default function ReviewDetailPage() {
   const params = useParams();
@@ -17,9 +50,25 @@ export default function ReviewDetailPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [decision, setDecision] = useState<'approve' | 'reject' | null>(null);
+  const [errorStatus, setErrorStatus] = useState<number | null>(null);
+  const [decision, setDecision] = useState<'approve' | 'reject' | 'resubmit' | null>(null);
   const [notes, setNotes] = useState('');
+  const [selectedReasonCodes, setSelectedReasonCodes] = useState<string[]>([]);
+  const [decisionError, setDecisionError] = useState<string | null>(null);
+  const [requestedDocuments, setRequestedDocuments] = useState<ResubmittableDocument[]>([]);
+  const [fieldCorrections, setFieldCorrections] = useState<Record<string, string>>({});
+  const reasonCodes = useReasonCodes();
   const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
+  const [documentZoom, setDocumentZoom] = useState(MIN_DOCUMENT_ZOOM);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showRawText, setShowRawText] = useState(false);
+  const notesRef = useRef<HTMLTextAreaElement>(null);
+  const resubmissionRef = useRef<HTMLFieldSetElement>(null);
+  // Only a case awaiting review can be claimed or decided; the server refuses the rest
+  const isAwaitingReview = verification?.status === 'ReviewNeeded';
+  const reviewClaim = useReviewClaim(isAwaitingReview ? verification : null);
+  const [workstationMode, setWorkstationMode] = useWorkstationMode();
+  const neighbours = useQueueNeighbours(verificationId, workstationMode);
 
   useEffect(() => {
     const loadVerification = async () => {
@@ -28,6 +77,7 @@ export default function ReviewDetailPage() {
         setVerification(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load verification');
+        setErrorStatus(err instanceof ApiError ? err.status : null);
       } finally {
         setIsLoading(false);
       }
@@ -43,22 +93,14 @@ export default function ReviewDetailPage() {
     const loadPreviews = async () => {
       if (!verification || !verification.documents || verification.documents.length === 0) return;
 
-      const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
-      const authHeaders = authService.getAuthHeader();
-
       const newUrls: Record<string, string> = {};
 
       await Promise.all(
         verification.documents.map(async (doc) => {
           if (!doc.mimeType?.startsWith('image/')) return;
 
-          const endpoint = `${API_BASE_URL}/verification/${verification.id}/document/${doc.id}`;
           try {
-            const response = await fetch(endpoint, { headers: authHeaders });
-            if (!response.ok) {
-              return;
-            }
-            const blob = await response.blob();
+            const blob = await verificationService.getDocumentBlob(verification.id, doc.id);
             const url = URL.createObjectURL(blob);
             newUrls[doc.id] = url;
           } catch {
@@ -81,40 +123,143 @@ export default function ReviewDetailPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [verification]);
 
-  const handleApprove = async () => {
+  // Workstation mode moves straight on to the next free case instead of the queue
+  const finishDecision = async () => {
+    reviewClaimService.forget(verificationId);
+    setDecision(null);
+    setNotes('');
+    setSelectedReasonCodes([]);
+    setRequestedDocuments([]);
+    setFieldCorrections({});
+
+    if (workstationMode) {
+      try {
+        const nextId = await claimNextCase(neighbours.nextIds);
+        if (nextId) {
+          router.push(`/review/${nextId}`);
+          return;
+        }
+      } catch {
+        // Pick the next case from the queue by hand
+      }
+    }
+    router.push('/review');
+  };
+
+  const handleDecision = async (status: Extract<VerificationStatus, 'Approved' | 'Rejected'>) => {
     if (!verification) return;
 
+    const problem = validateReasonSelection(status, selectedReasonCodes, notes, reasonCodes);
+    setDecisionError(problem);
+    if (problem) return;
+
     setIsProcessing(true);
     try {
       await verificationService.updateVerificationStatus(verificationId, {
-        status: 'Approved',
-        reason: notes || 'Manually approved by verification officer',
+        status,
+        // Only real notes count towards the codes that require them
+        reason: notes.trim() || undefined,
+        reasonCodes: selectedReasonCodes,
+        corrections: Object.entries(fieldCorrections).map(([field, value]) => ({ field, value })),
       });
-      router.push('/review');
+      await finishDecision();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to approve verification');
+      setDecisionError(getDecisionError(err, `Failed to ${status === 'Approved' ? 'approve' : 'reject'} verification`));
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleReject = async () => {
+  const handleFieldCorrection = (key: string, value: string | null) => {
+    setFieldCorrections((current) => {
+      const next = { ...current };
+      if (value === null) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return next;
+    });
+  };
+
+  const handleApprove = () => handleDecision('Approved');
+  const handleReject = () => handleDecision('Rejected');
+
+  // The review notes double as the instructions shown to the applicant
+  const handleRequestResubmission = async () => {
     if (!verification) return;
 
+    if (requestedDocuments.length === 0) {
+      setDecision('resubmit');
+      setDecisionError('Select the documents the applicant should upload again');
+      resubmissionRef.current?.focus();
+      return;
+    }
+    setDecisionError(null);
+
     setIsProcessing(true);
     try {
-      await verificationService.updateVerificationStatus(verificationId, {
-        status: 'Rejected',
-        reason: notes || 'Manually rejected by verification officer',
+      await verificationService.requestResubmission(verificationId, {
+        documents: requestedDocuments,
+        message: notes.trim() || undefined,
       });
-      router.push('/review');
+      await finishDecision();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to reject verification');
+      setDecisionError(getDecisionError(err, 'Failed to request resubmission'));
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const confirmDecision = () => {
+    if (decision === 'approve') handleApprove();
+    else if (decision === 'reject') handleReject();
+    else if (decision === 'resubmit') handleRequestResubmission();
+  };
+
+  const zoomDocuments = (step: number) => {
+    setDocumentZoom((zoom) => Math.min(MAX_DOCUMENT_ZOOM, Math.max(MIN_DOCUMENT_ZOOM, zoom + step)));
+  };
+
+  const canDecide = isAwaitingReview && reviewClaim.isMine && !isProcessing;
+
+  // Decisions are two-step from the keyboard: a letter arms it, Enter confirms
+  const shortcutHandlers: ReviewShortcutHandlers = {
+    approve: canDecide ? () => setDecision('approve') : undefined,
+    reject: canDecide ? () => setDecision('reject') : undefined,
+    requestResubmission: canDecide
+      ? () => {
+          setDecision('resubmit');
+          resubmissionRef.current?.focus();
+        }
+      : undefined,
+    confirm: canDecide && decision ? confirmDecision : undefined,
+    cancel: () => {
+      if (showShortcuts) {
+        setShowShortcuts(false);
+      } else if (showRawText) {
+        setShowRawText(false);
+      } else if (decision) {
+        setDecision(null);
+      } else if (document.activeElement instanceof HTMLElement) {
+        document.activeElement.blur();
+      }
+    },
+    claim: isAwaitingReview && reviewClaim.claim.state === 'unclaimed' ? reviewClaim.claimCase : undefined,
+    nextCase: neighbours.nextId ? () => router.push(`/review/${neighbours.nextId}`) : undefined,
+    previousCase: neighbours.previousId ? () => router.push(`/review/${neighbours.previousId}`) : undefined,
+    backToQueue: () => router.push('/review'),
+    zoomIn: () => zoomDocuments(DOCUMENT_ZOOM_STEP),
+    zoomOut: () => zoomDocuments(-DOCUMENT_ZOOM_STEP),
+    resetZoom: () => setDocumentZoom(MIN_DOCUMENT_ZOOM),
+    openRawText: verification?.ocrResult?.rawText ? () => setShowRawText(true) : undefined,
+    focusNotes: () => notesRef.current?.focus(),
+    toggleHelp: () => setShowShortcuts((open) => !open),
+  };
+  useReviewShortcuts(shortcutHandlers, workstationMode);
+  const availableShortcuts = (Object.keys(shortcutHandlers) as ReviewShortcutAction[])
+    .filter((action) => shortcutHandlers[action]);
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Approved':
@@ -125,6 +270,8 @@ export default function ReviewDetailPage() {
         return 'text-blue-600 bg-blue-100';
       case 'ReviewNeeded':
         return 'text-yellow-600 bg-yellow-100';
+      case 'ActionRequired':
+        return 'text-orange-600 bg-orange-100';
       default:
         return 'text-gray-600 bg-gray-100';
     }
@@ -165,8 +312,11 @@ export default function ReviewDetailPage() {
       <DashboardLayout>
         <div className="max-w-6xl mx-auto p-6">
           <div className="text-center">
-            <div className="text-red-600 text-4xl mb-4">❌</div>
-            <h2 className="text-2xl font-bold text-gray-900 mb-2">Error Loading Verification</h2>
+            <div className="text-red-600 text-4xl mb-4">{errorStatus === 403 ? '🔒' : '❌'}</div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              {errorStatus === 404 ? 'Verification Not Found' :
+               errorStatus === 403 ? 'Access Denied' : 'Error Loading Verification'}
+            </h2>
             <p className="text-gray-600 mb-6">{error || 'Verification not found'}</p>
             <Button onClick={() => router.push('/review')}>Return to Review Queue</Button>
           </div>
@@ -175,6 +325,13 @@ export default function ReviewDetailPage() {
     );
   }
 
+  // Field boxes are drawn over the image OCR read: the back of a citizenship card when
+  // one was uploaded (it carries the English details), otherwise the front of the ID
+  const idDocument = verification.documents.find((d) => d.documentType === 'IDDocument');
+  const idDocumentBack = verification.documents.find((d) => d.documentType === 'IDDocumentBack');
+  const ocrDocument =
+    idDocument && idDocumentBack && verification.documentType === 'CitizenshipCard' ? idDocumentBack : idDocument;
+
   return (
     <DashboardLayout>
       <div className="max-w-6xl mx-auto p-6">
@@ -193,6 +350,33 @@ export default function ReviewDetailPage() {
               </span>
             </div>
           </div>
+          <div className="mt-4 flex flex-wrap items-center gap-4 text-sm">
+            <label className="inline-flex items-center text-gray-700">
+              <input
+                type="checkbox"
+                checked={workstationMode}
+                onChange={(e) => setWorkstationMode(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              />
+              Workstation mode
+            </label>
+            {workstationMode && (
+              <>
+                <span className="text-gray-500">
+                  {neighbours.position
+                    ? `Case ${neighbours.position} of ${neighbours.total} in queue`
+                    : 'Not in the current queue'}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setShowShortcuts(true)}
+                  className="text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  Keyboard shortcuts (?)
+                </button>
+              </>
+            )}
+          </div>
         </div>
 
         {/* Error Display */}
@@ -257,7 +441,30 @@ export default function ReviewDetailPage() {
             {/* Documents */}
             {verification.documents && verification.documents.length > 0 && (
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-                <h2 className="text-lg font-medium text-gray-900 mb-4">Documents</h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-medium text-gray-900">Documents</h2>
+                  <div className="flex items-center gap-2 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => zoomDocuments(-DOCUMENT_ZOOM_STEP)}
+                      disabled={documentZoom <= MIN_DOCUMENT_ZOOM}
+                      className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                      aria-label="Zoom documents out"
+                    >
+                      −
+                    </button>
+                    <span className="w-12 text-center text-gray-600">{Math.round(documentZoom * 100)}%</span>
+                    <button
+                      type="button"
+                      onClick={() => zoomDocuments(DOCUMENT_ZOOM_STEP)}
+                      disabled={documentZoom >= MAX_DOCUMENT_ZOOM}
+                      className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                      aria-label="Zoom documents in"
+                    >
+                      +
+                    </button>
+                  </div>
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   {verification.documents.map((doc) => {
                     const isImage = doc.mimeType?.startsWith('image/');
@@ -280,7 +487,8 @@ export default function ReviewDetailPage() {
                               <img
                                 src={previewUrl}
                                 alt={doc.documentType}
-                                className="w-full h-48 object-contain bg-gray-50 rounded-lg border border-gray-200"
+                                className="w-full object-contain bg-gray-50 rounded-lg border border-gray-200"
+                                style={{ height: `${DOCUMENT_PREVIEW_HEIGHT_REM * documentZoom}rem` }}
                                 onError={(e) => {
                                   const target = e.target as HTMLImageElement;
                                   target.style.display = 'none';
@@ -346,107 +554,28 @@ export default function ReviewDetailPage() {
               </div>
             )}
 
+            {/* Face Comparison */}
+            {(verification.faceMatchResult || verification.documents.some((d) => d.documentType === 'Selfie')) && (
+              <FaceComparison verification={verification} previewUrls={previewUrls} />
+            )}
+
             {/* OCR Extracted Fields */}
             {verification.ocrResult && (
-              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h2 className="text-lg font-medium text-gray-900">Extracted Data</h2>
-                  {verification.ocrResult.rawText && (
-                    <button
-                      onClick={() => {
-                        const modal = document.getElementById('ocr-raw-text-modal');
-                        if (modal) {
-                          modal.classList.remove('hidden');
-                        }
-                      }}
-                      className="text-sm text-blue-600 hover:text-blue-800 font-medium"
-                    >
-                      View Raw Text →
-                    </button>
-                  )}
-                </div>
-                
-                {verification.ocrResult.extractedFields && Object.keys(verification.ocrResult.extractedFields).length > 0 ? (
-                  <dl className="grid grid-cols-2 gap-4">
-                    {Object.entries(verification.ocrResult.extractedFields).map(([key, field]) => (
-                      <div key={key} className="border-l-2 border-blue-200 pl-3">
-                        <dt className="text-sm font-medium text-gray-500 capitalize">
-                          {key.replace(/([A-Z])/g, ' $1').trim()}
-                        </dt>
-                        <dd className="text-sm text-gray-900 mt-1">
-                          <span className="font-medium">{field.value || 'N/A'}</span>
-                          {field.confidence && (
-                            <span className={`text-xs ml-2 px-2 py-0.5 rounded ${
-                              field.confidence >= 0.9 ? 'bg-green-100 text-green-700' :
-                              field.confidence >= 0.7 ? 'bg-yellow-100 text-yellow-700' :
-                              'bg-red-100 text-red-700'
-                            }`}>
-                              {Math.round(field.confidence * 100)}%
-                            </span>
-                          )}
-                        </dd>
-                      </div>
-                    ))}
-                  </dl>
-                ) : (
-                  <p className="text-sm text-gray-500">No fields extracted</p>
-                )}
-              </div>
+              <OcrFieldViewer
+                ocrResult={verification.ocrResult}
+                documentType={verification.documentType}
+                imageUrl={ocrDocument ? previewUrls[ocrDocument.id] : undefined}
+                onOpenRawText={() => setShowRawText(true)}
+                corrections={fieldCorrections}
+                onCorrect={reviewClaim.isMine ? handleFieldCorrection : undefined}
+              />
             )}
 
-            {/* OCR Raw Text Modal */}
-            {verification.ocrResult?.rawText && (
-              <div
-                id="ocr-raw-text-modal"
-                className="hidden fixed inset-0 z-50 overflow-y-auto"
-                onClick={(e) => {
-                  if (e.target === e.currentTarget) {
-                    e.currentTarget.classList.add('hidden');
-                  }
-                }}
-              >
-                <div className="flex items-center justify-center min-h-screen px-4">
-                  <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
-                    <div className="flex items-center justify-between p-6 border-b border-gray-200">
-                      <h3 className="text-lg font-bold text-gray-900">OCR Raw Text</h3>
-                      <button
-                        onClick={() => {
-                          const modal = document.getElementById('ocr-raw-text-modal');
-                          if (modal) {
-                            modal.classList.add('hidden');
-                          }
-                        }}
-                        className="text-gray-400 hover:text-gray-600"
-                      >
-                        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
-                    </div>
-                    <div className="p-6 overflow-y-auto flex-1">
-                      <div className="bg-gray-50 rounded-lg p-4">
-                        <pre className="text-xs text-gray-700 whitespace-pre-wrap font-mono">
-                          {verification.ocrResult.rawText}
-                        </pre>
-                      </div>
-                    </div>
-                    <div className="p-6 border-t border-gray-200 flex justify-end">
-                      <Button
-                        onClick={() => {
-                          const modal = document.getElementById('ocr-raw-text-modal');
-                          if (modal) {
-                            modal.classList.add('hidden');
-                          }
-                        }}
-                        variant="outline"
-                      >
-                        Close
-                      </Button>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            )}
+            {/* Machine-readable zone */}
+            {verification.ocrResult && <MrzSummary ocrResult={verification.ocrResult} corrections={fieldCorrections} />}
+
+            {/* Applicant vs. OCR data */}
+            {verification.ocrResult && <DataReconciliation verification={verification} corrections={fieldCorrections} />}
 
             {/* AI Analysis Results */}
             {(verification.authenticityScore || verification.faceMatchResult || verification.ocrResult) && (
@@ -615,49 +744,112 @@ export default function ReviewDetailPage() {
 
           {/* Sidebar - Review Actions */}
           <div className="space-y-6">
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <h2 className="text-lg font-medium text-gray-900 mb-4">Review Actions</h2>
+            {isAwaitingReview ? (
+              <>
+              <ClaimStatus {...reviewClaim} />
 
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Review Notes
-                  </label>
-                  <textarea
-                    value={notes}
-                    onChange={(e) => setNotes(e.target.value)}
-                    rows={4}
-                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-gray-900 bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                    placeholder="Add notes about your review decision..."
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Review Actions</h2>
+
+                <div className="space-y-4">
+                  <ResubmissionRequest
+                    ref={resubmissionRef}
+                    documentType={verification.documentType}
+                    selected={requestedDocuments}
+                    onChange={(documents) => {
+                      setRequestedDocuments(documents);
+                      setDecisionError(null);
+                    }}
+                    disabled={isProcessing}
                   />
-                </div>
 
-                <div className="flex flex-col space-y-2">
-                  <Button
-                    onClick={handleApprove}
-                    disabled={isProcessing}
-                    className="w-full bg-green-600 hover:bg-green-700"
-                  >
-                    {isProcessing ? 'Processing...' : 'Approve Verification'}
-                  </Button>
-                  <Button
-                    onClick={handleReject}
+                  <ReasonCodePicker
+                    reasonCodes={reasonCodes}
+                    selected={selectedReasonCodes}
+                    onChange={(codes) => {
+                      setSelectedReasonCodes(codes);
+                      setDecisionError(null);
+                    }}
                     disabled={isProcessing}
-                    variant="outline"
-                    className="w-full border-red-600 text-red-600 hover:bg-red-50"
-                  >
-                    {isProcessing ? 'Processing...' : 'Reject Verification'}
-                  </Button>
-                  <Button
-                    onClick={() => router.push('/review')}
-                    variant="outline"
-                    className="w-full"
-                  >
-                    Cancel
-                  </Button>
+                  />
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Review Notes
+                    </label>
+                    <textarea
+                      ref={notesRef}
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={4}
+                      className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-gray-900 bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      placeholder="Add notes about your review decision (sent to the applicant when requesting resubmission)..."
+                    />
+                  </div>
+
+                  {decisionError && (
+                    <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{decisionError}</div>
+                  )}
+
+                  {decision && (
+                    <div className={`rounded-md border p-3 text-sm ${
+                      decision === 'approve'
+                        ? 'bg-green-50 border-green-200 text-green-800'
+                        : decision === 'reject'
+                        ? 'bg-red-50 border-red-200 text-red-800'
+                        : 'bg-orange-50 border-orange-200 text-orange-800'
+                    }`}>
+                      Press <kbd className="px-1.5 py-0.5 rounded border border-current font-mono text-xs">Enter</kbd> to{' '}
+                      {decision === 'resubmit' ? 'ask the applicant for the selected documents' : `${decision} this verification`} or <kbd className="px-1.5 py-0.5 rounded border border-current font-mono text-xs">Esc</kbd> to cancel.
+                    </div>
+                  )}
+
+                  <div className="flex flex-col space-y-2">
+                    <Button
+                      onClick={handleApprove}
+                      disabled={isProcessing || !reviewClaim.isMine}
+                      className="w-full bg-green-600 hover:bg-green-700"
+                    >
+                      {isProcessing ? 'Processing...' : 'Approve Verification'}
+                    </Button>
+                    <Button
+                      onClick={handleReject}
+                      disabled={isProcessing || !reviewClaim.isMine}
+                      variant="outline"
+                      className="w-full border-red-600 text-red-600 hover:bg-red-50"
+                    >
+                      {isProcessing ? 'Processing...' : 'Reject Verification'}
+                    </Button>
+                    <Button
+                      onClick={handleRequestResubmission}
+                      disabled={isProcessing || !reviewClaim.isMine}
+                      variant="outline"
+                      className="w-full border-orange-500 text-orange-600 hover:bg-orange-50"
+                    >
+                      {isProcessing ? 'Processing...' : 'Request Resubmission'}
+                    </Button>
+                    <Button
+                      onClick={() => router.push('/review')}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
                 </div>
               </div>
-            </div>
+              </>
+            ) : (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-2">Review Actions</h2>
+                <p className="text-sm text-gray-600">
+                  This case is {verification.status} and is not awaiting review, so it cannot be claimed or decided.
+                </p>
+                <Button onClick={() => router.push('/review')} variant="outline" className="mt-3 w-full">
+                  Back to Queue
+                </Button>
+              </div>
+            )}
 
             {/* Quick Info */}
             <div className="bg-blue-50 rounded-lg border border-blue-200 p-4">
@@ -672,6 +864,14 @@ export default function ReviewDetailPage() {
           </div>
         </div>
       </div>
+
+      {showRawText && verification.ocrResult?.rawText && (
+        <RawTextDialog rawText={verification.ocrResult.rawText} onClose={() => setShowRawText(false)} />
+      )}
+
+      {showShortcuts && (
+        <ShortcutHelp onClose={() => setShowShortcuts(false)} available={availableShortcuts} />
+      )}
     </DashboardLayout>
   );
 }
@@ -0,0 +1,6 @@
+import RequireRole from '@/components/auth/require-role';
+import { REVIEWER_ROLES } from '@/lib/auth/route-access';
+
+export default function ReviewLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole roles={REVIEWER_ROLES}>{children}</RequireRole>;
+}
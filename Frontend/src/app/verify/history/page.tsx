@@ -6,6 +6,7 @@ import DashboardLayout from '@/components/layout/dashboard-layout';
 import VerificationTable from '@/components/verification/history/verification-table';
 import VerificationFiltersComponent from '@/components/verification/history/verification-filters';
 import type { VerificationFilters } from '@/components/verification/history/verification-filters';
+import { Pagination } from '@/components/ui/pagination';
 import { VerificationDto, VerificationListRequest } from '@/types/shared';
 import { verificationService } from '@/lib/api/verification-service';
 
@@ -14,26 +15,34 @@ export default function VerificationHistoryPage() {
   const [verifications, setVerifications] = useState<VerificationDto[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [activeFilters, setActiveFilters] = useState<VerificationListRequest>({});
   const [pagination, setPagination] = useState({
-    page: 1,
+    currentPage: 1,
     pageSize: 20,
     totalCount: 0,
+    totalPages: 0,
+    hasNextPage: false,
+    hasPreviousPage: false,
   });
 
-  const loadVerifications = async (request: VerificationListRequest = {}) => {
+  const loadVerifications = async (page: number, filters: VerificationListRequest = activeFilters) => {
     try {
       setIsLoading(true);
       const response = await verificationService.getMyVerifications({
-        ...request,
-        page: pagination.page,
+        ...filters,
+        page,
         pageSize: pagination.pageSize,
       });
 
       setVerifications(response.verifications);
-      setPagination(prev => ({
-        ...prev,
+      setPagination({
+        currentPage: response.currentPage,
+        pageSize: response.pageSize,
         totalCount: response.totalCount,
-      }));
+        totalPages: response.totalPages,
+        hasNextPage: response.hasNextPage,
+        hasPreviousPage: response.hasPreviousPage,
+      });
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load verifications');
@@ -44,28 +53,28 @@ export default function VerificationHistoryPage() {
   };
 
   useEffect(() => {
-    loadVerifications();
+    loadVerifications(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   const handleFiltersChange = (filters: VerificationFilters) => {
     const request: VerificationListRequest = {
-      page: 1, // Reset to first page when filters change
-      pageSize: pagination.pageSize,
       searchTerm: filters.searchTerm,
-      status: filters.status.length > 0 ? filters.status[0] as any : undefined,
-      documentType: filters.documentType.length > 0 ? filters.documentType[0] as any : undefined,
-      priority: filters.priority.length > 0 ? filters.priority[0] as any : undefined,
+      status: filters.status,
+      documentType: filters.documentType,
+      priority: filters.priority,
       startDate: filters.dateRange?.startDate,
       endDate: filters.dateRange?.endDate,
     };
 
-    setPagination(prev => ({ ...prev, page: 1 }));
-    loadVerifications(request);
+    // Reset to first page when filters change
+    setActiveFilters(request);
+    loadVerifications(1, request);
   };
 
   const handleReset = () => {
-    setPagination(prev => ({ ...prev, page: 1 }));
-    loadVerifications();
+    setActiveFilters({});
+    loadVerifications(1, {});
   };
 
   const handleViewDetails = (id: string) => {
@@ -79,20 +88,20 @@ export default function VerificationHistoryPage() {
 
     try {
       await verificationService.deleteVerification(id);
-      // Reload verifications after deletion
-      await loadVerifications();
+      // Reload the current page, stepping back if the last item on it was removed
+      const page = verifications.length === 1 && pagination.currentPage > 1
+        ? pagination.currentPage - 1
+        : pagination.currentPage;
+      await loadVerifications(page);
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Failed to delete verification');
     }
   };
 
   const handlePageChange = (newPage: number) => {
-    setPagination(prev => ({ ...prev, page: newPage }));
-    loadVerifications({ page: newPage });
+    loadVerifications(newPage);
   };
 
-  const totalPages = Math.ceil(pagination.totalCount / pagination.pageSize);
-
   return (
     <DashboardLayout>
       <div className="max-w-7xl mx-auto p-6">
@@ -139,61 +148,16 @@ export default function VerificationHistoryPage() {
         </div>
 
         {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="mt-6 flex items-center justify-between">
-            <div className="text-sm text-gray-700">
-              Showing {((pagination.page - 1) * pagination.pageSize) + 1} to{' '}
-              {Math.min(pagination.page * pagination.pageSize, pagination.totalCount)} of{' '}
-              {pagination.totalCount} results
-            </div>
-            <div className="flex items-center space-x-2">
-              <button
-                onClick={() => handlePageChange(pagination.page - 1)}
-                disabled={pagination.page === 1}
-                className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Previous
-              </button>
-
-              <div className="flex items-center space-x-1">
-                {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                  let pageNumber;
-                  if (totalPages <= 5) {
-                    pageNumber = i + 1;
-                  } else if (pagination.page <= 3) {
-                    pageNumber = i + 1;
-                  } else if (pagination.page >= totalPages - 2) {
-                    pageNumber = totalPages - 4 + i;
-                  } else {
-                    pageNumber = pagination.page - 2 + i;
-                  }
-
-                  return (
-                    <button
-                      key={pageNumber}
-                      onClick={() => handlePageChange(pageNumber)}
-                      className={`px-3 py-1 text-sm font-medium rounded-md ${
-                        pageNumber === pagination.page
-                          ? 'bg-blue-600 text-white'
-                          : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
-                      }`}
-                    >
-                      {pageNumber}
-                    </button>
-                  );
-                })}
-              </div>
-
-              <button
-                onClick={() => handlePageChange(pagination.page + 1)}
-                disabled={pagination.page === totalPages}
-                className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Next
-              </button>
-            </div>
-          </div>
-        )}
+        <Pagination
+          currentPage={pagination.currentPage}
+          totalPages={pagination.totalPages}
+          totalCount={pagination.totalCount}
+          pageSize={pagination.pageSize}
+          hasNextPage={pagination.hasNextPage}
+          hasPreviousPage={pagination.hasPreviousPage}
+          onPageChange={handlePageChange}
+          disabled={isLoading}
+        />
 
         {/* Empty State */}
         {!isLoading && verifications.length === 0 && !error && (
@@ -0,0 +1,22 @@
+import Link from 'next/link';
+
+export default function AccessDenied() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="max-w-md w-full text-center">
+        <div className="text-red-600 text-4xl mb-4">🔒</div>
+        <p className="text-sm font-semibold text-red-600 mb-2">403</p>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+        <p className="text-gray-600 mb-6">
+          Your account does not have permission to view this page. If you think this is a mistake, ask an administrator to update your roles.
+        </p>
+        <Link
+          href="/dashboard"
+          className="inline-block px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Return to Dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
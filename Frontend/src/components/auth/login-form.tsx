@@ -1,9 +1,10 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { authService } from '@/lib/auth/auth-service';
 import { LoginRequest } from '@/types/shared';
+import { RETURN_TO_PARAM, safeReturnPath } from '@/lib/auth/route-access';
 
 export default function LoginForm() {
   const router = useRouter();
@@ -15,6 +16,15 @@ export default function LoginForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
+  // Signing in from another tab signs this one in too
+  useEffect(() => {
+    return authService.onSessionChange((event) => {
+      if (event.remote && event.type === 'login') {
+        router.push('/dashboard');
+      }
+    });
+  }, [router]);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target;
     setFormData(prev => ({
@@ -30,7 +40,9 @@ export default function LoginForm() {
 
     try {
       await authService.login(formData);
-      router.push('/dashboard');
+      // Return to the page the route guard sent us here from
+      const returnTo = new URLSearchParams(window.location.search).get(RETURN_TO_PARAM);
+      router.push(safeReturnPath(returnTo) ?? '/dashboard');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
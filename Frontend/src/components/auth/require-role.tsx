@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { authService } from '@/lib/auth/auth-service';
+import {
+  LOGIN_PATH,
+  RETURN_TO_PARAM,
+  findRouteAccessRule,
+  hasRequiredRole,
+} from '@/lib/auth/route-access';
+import AccessDenied from './access-denied';
+
+interface RequireRoleProps {
+  /** Roles that may see the content; defaults to the rule for the current route. */
+  roles?: string[];
+  children: React.ReactNode;
+}
+
+// Client-side counterpart to the route proxy; also reacts to sign-out and role changes
+export default function RequireRole({ roles, children }: RequireRoleProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [userRoles, setUserRoles] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    const check = async () => {
+      // A refresh that failed for network reasons keeps the session
+      const signedIn = await authService.getValidToken().then(Boolean, () => authService.isAuthenticated());
+      if (!signedIn) {
+        router.replace(`${LOGIN_PATH}?${RETURN_TO_PARAM}=${encodeURIComponent(pathname)}`);
+        return;
+      }
+      setUserRoles(authService.getUserRoles());
+    };
+
+    check();
+    return authService.onSessionChange(() => {
+      check();
+    });
+  }, [router, pathname]);
+
+  if (!userRoles) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const requiredRoles = roles ?? findRouteAccessRule(pathname)?.roles ?? [];
+  if (!hasRequiredRole(userRoles, requiredRoles)) {
+    return <AccessDenied />;
+  }
+
+  return <>{children}</>;
+}
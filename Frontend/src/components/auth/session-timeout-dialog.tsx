@@ -0,0 +1,59 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useSessionTimeout } from '@/lib/auth/session-timeout';
+
+const formatCountdown = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return mins > 0 ? `${mins}:${secs.toString().padStart(2, '0')}` : `${secs}s`;
+};
+
+export default function SessionTimeoutDialog() {
+  const { warning, staySignedIn, signOut } = useSessionTimeout();
+  const [isExtending, setIsExtending] = useState(false);
+
+  if (!warning) {
+    return null;
+  }
+
+  const handleStaySignedIn = async () => {
+    setIsExtending(true);
+    try {
+      await staySignedIn();
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  const isAbsolute = warning.reason === 'absolute';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" role="alertdialog" aria-modal="true" aria-labelledby="session-timeout-title">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <h3 id="session-timeout-title" className="text-lg font-medium text-gray-900 mb-2">
+          {isAbsolute ? 'Your session is ending' : 'Are you still there?'}
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {isAbsolute
+            ? 'You have reached the maximum session length and will be signed out. Save your work and sign in again to continue.'
+            : 'You have been inactive for a while. For security you will be signed out automatically.'}
+        </p>
+        <div className="text-center text-3xl font-bold text-gray-900 mb-6" aria-live="polite">
+          {formatCountdown(warning.secondsRemaining)}
+        </div>
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={signOut} disabled={isExtending}>
+            Sign out now
+          </Button>
+          {!isAbsolute && (
+            <Button onClick={handleStaySignedIn} isLoading={isExtending}>
+              Stay signed in
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,10 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { authService } from '@/lib/auth/auth-service';
+import { User } from '@/types/shared';
+import { canAccessRoute } from '@/lib/auth/route-access';
+import SessionTimeoutDialog from '@/components/auth/session-timeout-dialog';
+import NotificationCenter from '@/components/notifications/notification-center';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -11,7 +15,7 @@ interface DashboardLayoutProps {
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const router = useRouter();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [user, setUser] = useState<any>(null);
+  const [user, setUser] = useState<User | null>(null);
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -26,6 +30,27 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
     checkAuth();
   }, [router]);
 
+  // Keep every open tab in step with the session
+  useEffect(() => {
+    return authService.onSessionChange(async (event) => {
+      if (event.type === 'logout') {
+        setUser(null);
+        router.push('/auth/login');
+        return;
+      }
+
+      // A different account or new roles change what this layout may show
+      if (event.type === 'login' || event.rolesChanged) {
+        const currentUser = await authService.getCurrentUser();
+        if (!currentUser) {
+          router.push('/auth/login');
+          return;
+        }
+        setUser(currentUser);
+      }
+    });
+  }, [router]);
+
   const handleLogout = async () => {
     await authService.logout();
     router.push('/auth/login');
@@ -39,13 +64,14 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
     );
   }
 
+  // Same role map the route proxy enforces
   const navigation = [
-    { name: 'Dashboard', href: '/dashboard', show: true },
-    { name: 'New Verification', href: '/verify/new', show: true },
-    { name: 'My Verifications', href: '/verify/history', show: true },
-    { name: 'Review Queue', href: '/review', show: authService.isVerificationOfficer() || authService.isAdmin() },
-    { name: 'Administration', href: '/admin/settings', show: authService.isAdmin() },
-  ].filter(item => item.show);
+    { name: 'Dashboard', href: '/dashboard' },
+    { name: 'New Verification', href: '/verify/new' },
+    { name: 'My Verifications', href: '/verify/history' },
+    { name: 'Review Queue', href: '/review' },
+    { name: 'Administration', href: '/admin/settings' },
+  ].filter(item => canAccessRoute(item.href, user.roles));
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -121,10 +147,10 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
       {/* Main content */}
       <div className="lg:pl-64">
         {/* Top bar */}
-        <div className="sticky top-0 z-10 lg:hidden pl-1 pt-1 sm:pl-3 sm:pt-3 bg-white border-b border-gray-200">
+        <div className="sticky top-0 z-10 flex items-center justify-between px-1 py-1 sm:px-3 bg-white border-b border-gray-200">
           <button
             type="button"
-            className="-ml-0.5 -mt-0.5 h-12 w-12 inline-flex items-center justify-center rounded-md text-gray-500 hover:text-gray-900 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
+            className="lg:hidden h-12 w-12 inline-flex items-center justify-center rounded-md text-gray-500 hover:text-gray-900 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
             onClick={() => setIsSidebarOpen(true)}
           >
             <span className="sr-only">Open sidebar</span>
@@ -132,11 +158,16 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h16M4 18h16" />
             </svg>
           </button>
+          <div className="ml-auto">
+            <NotificationCenter user={user} />
+          </div>
         </div>
 
         {/* Page content */}
         <main className="flex-1">{children}</main>
       </div>
+
+      <SessionTimeoutDialog />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { Priority } from '@/types/shared';
+import {
+  ALERT_PRIORITIES,
+  DesktopAlertPreferences,
+  desktopAlertService,
+} from '@/lib/notifications/desktop-alerts';
+
+interface DesktopAlertSettingsProps {
+  userId: string;
+}
+
+export default function DesktopAlertSettings({ userId }: DesktopAlertSettingsProps) {
+  const [preferences, setPreferences] = useState<DesktopAlertPreferences>(() => desktopAlertService.getPreferences(userId));
+  const [permission, setPermission] = useState(() => desktopAlertService.getPermission());
+
+  const save = (next: DesktopAlertPreferences) => {
+    setPreferences(next);
+    desktopAlertService.setPreferences(userId, next);
+  };
+
+  const handleEnabledChange = async (enabled: boolean) => {
+    if (enabled && permission !== 'granted') {
+      const result = await desktopAlertService.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+    }
+    save({ ...preferences, enabled });
+  };
+
+  const togglePriority = (priority: Priority) => {
+    const priorities = preferences.priorities.includes(priority)
+      ? preferences.priorities.filter((p) => p !== priority)
+      : [...preferences.priorities, priority];
+    save({ ...preferences, priorities });
+  };
+
+  if (permission === 'unsupported') {
+    return (
+      <p className="text-xs text-gray-500">Desktop alerts are not supported in this browser.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <label className="flex items-center text-gray-900 font-medium">
+        <input
+          type="checkbox"
+          checked={preferences.enabled && permission === 'granted'}
+          onChange={(e) => handleEnabledChange(e.target.checked)}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+        />
+        Desktop alerts when this tab is in the background
+      </label>
+
+      {permission === 'denied' && (
+        <p className="text-xs text-red-600">
+          Notifications are blocked for this site. Allow them in your browser settings to turn on desktop alerts.
+        </p>
+      )}
+
+      {preferences.enabled && permission === 'granted' && (
+        <div className="pl-6 space-y-3">
+          <div className="space-y-1">
+            <label className="flex items-center text-gray-700">
+              <input
+                type="checkbox"
+                checked={preferences.queueEvents}
+                onChange={(e) => save({ ...preferences, queueEvents: e.target.checked })}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              />
+              New cases in the review queue
+            </label>
+            <label className="flex items-center text-gray-700">
+              <input
+                type="checkbox"
+                checked={preferences.assignedEvents}
+                onChange={(e) => save({ ...preferences, assignedEvents: e.target.checked })}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              />
+              Changes to cases assigned to me
+            </label>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-1">Priorities</p>
+            <div className="flex flex-wrap gap-2">
+              {ALERT_PRIORITIES.map((priority) => (
+                <label key={priority} className="inline-flex items-center text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={preferences.priorities.includes(priority)}
+                    onChange={() => togglePriority(priority)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-1"
+                  />
+                  {priority}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { User } from '@/types/shared';
+import {
+  NotificationSeverity,
+  StoredNotification,
+  useNotificationCenter,
+  useUnreadTitle,
+} from '@/lib/notifications/notification-service';
+import { useQueueAlerts } from '@/lib/notifications/desktop-alerts';
+import DesktopAlertSettings from './desktop-alert-settings';
+
+interface NotificationCenterProps {
+  user: User;
+}
+
+type SeverityFilter = NotificationSeverity | 'all';
+
+const SEVERITY_FILTERS: { value: SeverityFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'error', label: 'Errors' },
+  { value: 'warning', label: 'Warnings' },
+  { value: 'success', label: 'Success' },
+  { value: 'info', label: 'Info' },
+];
+
+const SEVERITY_DOT: Record<NotificationSeverity, string> = {
+  error: 'bg-red-500',
+  warning: 'bg-yellow-500',
+  success: 'bg-green-500',
+  info: 'bg-blue-500',
+};
+
+const formatRelativeTime = (timestamp: string) => {
+  const seconds = Math.round((Date.now() - new Date(timestamp).getTime()) / 1000);
+  if (seconds < 60) return 'Just now';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export default function NotificationCenter({ user }: NotificationCenterProps) {
+  const router = useRouter();
+  const { notifications, unreadCount, markAsRead, markAllAsRead, remove, clear } = useNotificationCenter(user.id);
+  const [isOpen, setIsOpen] = useState(false);
+  const [severityFilter, setSeverityFilter] = useState<SeverityFilter>('all');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const isReviewer = useQueueAlerts(user);
+  useUnreadTitle(unreadCount);
+
+  const visible = notifications.filter((n) =>
+    (severityFilter === 'all' || n.severity === severityFilter) && (!unreadOnly || !n.read)
+  );
+
+  // Reviewers land on the review screen; applicants on their status page
+  const getLink = (verificationId: string) =>
+    isReviewer ? `/review/${verificationId}` : `/verify/${verificationId}`;
+
+  const handleSelect = (notification: StoredNotification) => {
+    markAsRead(notification.id);
+    if (notification.verificationId) {
+      setIsOpen(false);
+      router.push(getLink(notification.verificationId));
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="relative h-10 w-10 inline-flex items-center justify-center rounded-md text-gray-500 hover:text-gray-900 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+      >
+        <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-bold">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50" role="dialog" aria-modal="true" aria-labelledby="notification-center-title">
+          <div className="fixed inset-0 bg-gray-600 bg-opacity-50" onClick={() => setIsOpen(false)}></div>
+          <div className="fixed inset-y-0 right-0 w-full max-w-md bg-white shadow-xl flex flex-col">
+            <div className="px-4 py-4 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h2 id="notification-center-title" className="text-lg font-medium text-gray-900">Notifications</h2>
+                <button
+                  type="button"
+                  onClick={() => setIsOpen(false)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <span className="sr-only">Close notifications</span>
+                  <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              <div className="mt-3 flex flex-wrap gap-2">
+                {SEVERITY_FILTERS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setSeverityFilter(value)}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium ${
+                      severityFilter === value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="mt-3 flex items-center justify-between text-sm">
+                <label className="inline-flex items-center text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={unreadOnly}
+                    onChange={(e) => setUnreadOnly(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                  />
+                  Unread only
+                </label>
+                <div className="space-x-3">
+                  <button
+                    type="button"
+                    onClick={markAllAsRead}
+                    disabled={unreadCount === 0}
+                    className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  >
+                    Mark all as read
+                  </button>
+                  <button
+                    type="button"
+                    onClick={clear}
+                    disabled={notifications.length === 0}
+                    className="text-gray-600 hover:text-gray-900 disabled:text-gray-400"
+                  >
+                    Clear
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+              {visible.length === 0 ? (
+                <li className="p-6 text-center text-sm text-gray-500">
+                  {notifications.length === 0 ? 'No notifications yet' : 'No notifications match this filter'}
+                </li>
+              ) : (
+                visible.map((notification) => (
+                  <li key={notification.id} className={notification.read ? 'bg-white' : 'bg-blue-50'}>
+                    <div className="flex items-start px-4 py-3">
+                      <span className={`mt-1.5 h-2 w-2 rounded-full shrink-0 ${SEVERITY_DOT[notification.severity]}`}></span>
+                      <button
+                        type="button"
+                        onClick={() => handleSelect(notification)}
+                        className="ml-3 flex-1 min-w-0 text-left"
+                      >
+                        <p className={`text-sm text-gray-900 ${notification.read ? '' : 'font-semibold'}`}>{notification.title}</p>
+                        <p className="text-sm text-gray-600">{notification.message}</p>
+                        <p className="mt-1 text-xs text-gray-400">
+                          {formatRelativeTime(notification.receivedAt)}
+                          {notification.verificationId && <span className="ml-2 text-blue-600">View verification →</span>}
+                        </p>
+                      </button>
+                      <div className="ml-2 flex flex-col items-end space-y-1 shrink-0">
+                        {!notification.read && (
+                          <button
+                            type="button"
+                            onClick={() => markAsRead(notification.id)}
+                            className="text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            Mark read
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => remove(notification.id)}
+                          className="text-xs text-gray-400 hover:text-gray-600"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                ))
+              )}
+            </ul>
+
+            {isReviewer && (
+              <div className="px-4 py-4 border-t border-gray-200 bg-gray-50">
+                <DesktopAlertSettings userId={user.id} />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { ClaimInfo, formatClaimant } from '@/lib/review/review-claims';
+import { Button } from '@/components/ui/button';
+
+interface ClaimStatusProps {
+  claim: ClaimInfo;
+  isClaiming: boolean;
+  claimError: string | null;
+  claimCase: () => void;
+  releaseCase: () => void;
+}
+
+const formatTime = (timestamp?: string) =>
+  timestamp ? new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) : '';
+
+export default function ClaimStatus({ claim, isClaiming, claimError, claimCase, releaseCase }: ClaimStatusProps) {
+  const tone = claim.state === 'mine'
+    ? 'bg-green-50 border-green-200'
+    : claim.state === 'other'
+    ? 'bg-yellow-50 border-yellow-200'
+    : 'bg-white border-gray-200';
+
+  return (
+    <div className={`rounded-lg shadow-sm border p-6 ${tone}`}>
+      <h2 className="text-lg font-medium text-gray-900 mb-2">Case Claim</h2>
+
+      {claim.state === 'mine' && (
+        <>
+          <p className="text-sm text-green-800">
+            You are reviewing this case. Other officers see it as taken until {formatTime(claim.expiresAt)}; the claim renews while this tab stays open.
+          </p>
+          <Button onClick={releaseCase} variant="outline" size="sm" className="mt-3 w-full">
+            Release to Queue
+          </Button>
+        </>
+      )}
+
+      {claim.state === 'other' && (
+        <p className="text-sm text-yellow-800">
+          Being reviewed by {formatClaimant(claim)} since {formatTime(claim.claimedAt)}. Decisions are locked
+          until they release it or their claim lapses at {formatTime(claim.expiresAt)}.
+        </p>
+      )}
+
+      {claim.state === 'unclaimed' && (
+        <>
+          <p className="text-sm text-gray-600">Claim this case to approve or reject it. Other officers will see that you are reviewing it.</p>
+          <Button onClick={claimCase} disabled={isClaiming} size="sm" className="mt-3 w-full">
+            {isClaiming ? 'Claiming...' : 'Claim Case'}
+          </Button>
+        </>
+      )}
+
+      {claimError && (
+        <p className="mt-3 text-sm text-red-600">{claimError}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { BoundingBoxDto, DetectedFace, FaceMatchResultDto, VerificationDto } from '@/types/shared';
+import { verificationService } from '@/lib/api/verification-service';
+
+interface FaceComparisonProps {
+  verification: VerificationDto;
+  /** Object URLs of the loaded document previews, keyed by document id. */
+  previewUrls: Record<string, string>;
+}
+
+interface ViewState {
+  zoom: number;
+  /** Pan offset in screen pixels, shared by both panes. */
+  x: number;
+  y: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.5;
+const INITIAL_VIEW: ViewState = { zoom: MIN_ZOOM, x: 0, y: 0 };
+const INITIAL_ADJUSTMENTS = { brightness: 100, contrast: 100 };
+
+// The ID face is located on the full document; shift it into the portrait crop, or drop it if it lies outside
+const toCropCoordinates = (face: DetectedFace | undefined, crop: BoundingBoxDto): DetectedFace | undefined => {
+  if (!face) return undefined;
+
+  const box = face.boundingBox;
+  const overlapsCrop = box
+    && box.x < crop.x + crop.width && box.x + box.width > crop.x
+    && box.y < crop.y + crop.height && box.y + box.height > crop.y;
+
+  return {
+    ...face,
+    boundingBox: box && overlapsCrop ? { ...box, x: box.x - crop.x, y: box.y - crop.y } : undefined,
+  };
+};
+
+const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+interface FacePaneProps {
+  title: string;
+  subtitle?: string;
+  src?: string;
+  face?: DetectedFace;
+  view: ViewState;
+  filter: string;
+  showOverlays: boolean;
+  onPan: (dx: number, dy: number) => void;
+}
+
+function FacePane({ title, subtitle, src, face, view, filter, showOverlays, onPan }: FacePaneProps) {
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (view.zoom <= MIN_ZOOM) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    onPan(e.clientX - dragRef.current.x, e.clientY - dragRef.current.y);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const box = face?.boundingBox;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-2">
+        <span className="text-sm font-medium text-gray-900">{title}</span>
+        {face && (
+          <span className={`text-xs ${face.detected ? 'text-green-700' : 'text-red-600'}`}>
+            {face.detected ? 'Face detected' : 'No face detected'}
+          </span>
+        )}
+      </div>
+
+      <div
+        className={`relative h-72 overflow-hidden rounded-lg border border-gray-200 bg-gray-900 select-none touch-none ${
+          view.zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : ''
+        }`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        {src ? (
+          <div
+            className="absolute inset-0 flex items-center justify-center"
+            style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+          >
+            <div className="relative">
+              <img
+                src={src}
+                alt={title}
+                draggable={false}
+                className="block max-h-72 max-w-full object-contain"
+                style={{ filter }}
+                onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              />
+
+              {showOverlays && naturalSize && box && (
+                <div
+                  className="absolute border-2 border-green-400 rounded-sm pointer-events-none"
+                  style={{
+                    left: percent(box.x, naturalSize.width),
+                    top: percent(box.y, naturalSize.height),
+                    width: percent(box.width, naturalSize.width),
+                    height: percent(box.height, naturalSize.height),
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-full text-xs text-gray-400">Image not available</div>
+        )}
+      </div>
+
+      {subtitle && <p className="mt-1 text-xs text-gray-500">{subtitle}</p>}
+    </div>
+  );
+}
+
+function ScoreGauge({ result }: { result: FaceMatchResultDto }) {
+  if (result.similarityScore === undefined || result.similarityScore === null) {
+    return (
+      <p className="text-sm text-gray-600">
+        No similarity score: {result.faceDetectionDetails?.reason ?? 'the comparison was inconclusive'}.
+      </p>
+    );
+  }
+
+  const score = Number(result.similarityScore);
+  const threshold = Number(result.confidenceThreshold ?? 0);
+  const passes = score >= threshold;
+  const margin = Math.round((score - threshold) * 100);
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between text-sm mb-1">
+        <span className="text-gray-600">Similarity</span>
+        <span className={`font-semibold ${passes ? 'text-green-700' : 'text-red-600'}`}>
+          {Math.round(score * 100)}%
+          <span className="ml-2 text-xs font-normal text-gray-500">
+            {margin >= 0 ? '+' : ''}{margin} pts vs threshold
+          </span>
+        </span>
+      </div>
+      <div className="relative h-3 rounded-full bg-gray-200">
+        <div
+          className={`h-3 rounded-full ${passes ? 'bg-green-500' : 'bg-red-500'}`}
+          style={{ width: `${Math.min(100, Math.max(0, score * 100))}%` }}
+        />
+        {threshold > 0 && (
+          <div
+            className="absolute -top-1 -bottom-1 w-0.5 bg-gray-900"
+            style={{ left: `${threshold * 100}%` }}
+            title={`Match threshold ${Math.round(threshold * 100)}%`}
+          />
+        )}
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-gray-500">
+        <span>0%</span>
+        {threshold > 0 && <span>Threshold {Math.round(threshold * 100)}%</span>}
+        <span>100%</span>
+      </div>
+    </div>
+  );
+}
+
+export default function FaceComparison({ verification, previewUrls }: FaceComparisonProps) {
+  const [portraitUrl, setPortraitUrl] = useState<string | null>(null);
+  const [view, setView] = useState<ViewState>(INITIAL_VIEW);
+  const [adjustments, setAdjustments] = useState(INITIAL_ADJUSTMENTS);
+  const [showOverlays, setShowOverlays] = useState(true);
+
+  const portraitField = verification.ocrResult?.extractedFields?.portraitImage;
+  const hasPortrait = Boolean(portraitField?.value);
+
+  useEffect(() => {
+    if (!hasPortrait) return;
+
+    let url: string | null = null;
+    let cancelled = false;
+    verificationService.getPortraitBlob(verification.id)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPortraitUrl(url);
+      })
+      .catch(() => {
+        // Fall back to the full ID document
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [verification.id, hasPortrait]);
+
+  const idDocument = verification.documents.find((d) => d.documentType === 'IDDocument');
+  const selfie = verification.documents.find((d) => d.documentType === 'Selfie');
+  const details = verification.faceMatchResult?.faceDetectionDetails;
+  const portraitBox = portraitField?.boundingBox;
+
+  const showPortrait = Boolean(portraitUrl && portraitBox);
+  const idFace = showPortrait && portraitBox ? toCropCoordinates(details?.idDocumentFace, portraitBox) : details?.idDocumentFace;
+
+  const filter = `brightness(${adjustments.brightness}%) contrast(${adjustments.contrast}%)`;
+
+  const zoom = (step: number) => {
+    setView((current) => {
+      const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom + step));
+      return next === MIN_ZOOM ? INITIAL_VIEW : { ...current, zoom: next };
+    });
+  };
+
+  const pan = (dx: number, dy: number) => {
+    setView((current) => ({ ...current, x: current.x + dx, y: current.y + dy }));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-lg font-medium text-gray-900">Face Comparison</h2>
+        <div className="flex items-center gap-1 text-sm">
+          <button
+            type="button"
+            onClick={() => zoom(-ZOOM_STEP)}
+            disabled={view.zoom <= MIN_ZOOM}
+            className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+            aria-label="Zoom faces out"
+          >
+            −
+          </button>
+          <span className="w-12 text-center text-gray-600">{Math.round(view.zoom * 100)}%</span>
+          <button
+            type="button"
+            onClick={() => zoom(ZOOM_STEP)}
+            disabled={view.zoom >= MAX_ZOOM}
+            className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+            aria-label="Zoom faces in"
+          >
+            +
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setView(INITIAL_VIEW);
+              setAdjustments(INITIAL_ADJUSTMENTS);
+            }}
+            className="ml-2 px-2 py-1 rounded text-gray-600 hover:bg-gray-100"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FacePane
+          title={showPortrait ? 'ID portrait' : 'ID document'}
+          subtitle={showPortrait ? 'Photo cropped from the document during OCR' : undefined}
+          src={(showPortrait ? portraitUrl : idDocument && previewUrls[idDocument.id]) ?? undefined}
+          face={idFace}
+          view={view}
+          filter={filter}
+          showOverlays={showOverlays}
+          onPan={pan}
+        />
+        <FacePane
+          title="Selfie"
+          src={selfie ? previewUrls[selfie.id] : undefined}
+          face={details?.selfieFace}
+          view={view}
+          filter={filter}
+          showOverlays={showOverlays}
+          onPan={pan}
+        />
+      </div>
+      <p className="mt-2 text-xs text-gray-500">Zoom and drag apply to both images so the same features stay side by side.</p>
+
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+        <label className="block">
+          <span className="text-gray-700">Brightness {adjustments.brightness}%</span>
+          <input
+            type="range"
+            min={50}
+            max={200}
+            step={10}
+            value={adjustments.brightness}
+            onChange={(e) => setAdjustments((a) => ({ ...a, brightness: Number(e.target.value) }))}
+            className="w-full"
+          />
+        </label>
+        <label className="block">
+          <span className="text-gray-700">Contrast {adjustments.contrast}%</span>
+          <input
+            type="range"
+            min={50}
+            max={200}
+            step={10}
+            value={adjustments.contrast}
+            onChange={(e) => setAdjustments((a) => ({ ...a, contrast: Number(e.target.value) }))}
+            className="w-full"
+          />
+        </label>
+        <label className="flex items-center text-gray-700 sm:justify-end">
+          <input
+            type="checkbox"
+            checked={showOverlays}
+            onChange={(e) => setShowOverlays(e.target.checked)}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+          />
+          Show face boxes
+        </label>
+      </div>
+
+      {verification.faceMatchResult && (
+        <div className="mt-6">
+          <ScoreGauge result={verification.faceMatchResult} />
+        </div>
+      )}
+    </div>
+  );
+}
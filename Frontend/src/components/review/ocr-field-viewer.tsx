@@ -0,0 +1,347 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { DocumentType, ExtractedFieldDto, OcrResultDto } from '@/types/shared';
+import { authService } from '@/lib/auth/auth-service';
+import {
+  alternateCalendarDate,
+  isCorrectableField,
+  isDateField,
+  normalizeFieldValue,
+  validateFieldCorrection,
+} from '@/lib/verification/field-corrections';
+
+interface OcrFieldViewerProps {
+  ocrResult: OcrResultDto;
+  documentType: DocumentType;
+  /** Preview of the document image the fields were read from. */
+  imageUrl?: string;
+  onOpenRawText: () => void;
+  /** Unsaved corrections by field key; they are submitted with the decision. */
+  corrections?: Record<string, string>;
+  /** Set or, with null, discard a correction. Fields are read-only without it. */
+  onCorrect?: (key: string, value: string | null) => void;
+}
+
+// Fields below this are worth a second look
+const REVIEW_CONFIDENCE_THRESHOLD = 0.9;
+const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+const CONFIDENCE_STYLES = {
+  high: { badge: 'bg-green-100 text-green-700', box: 'border-green-500', fill: 'bg-green-500/15' },
+  medium: { badge: 'bg-yellow-100 text-yellow-700', box: 'border-yellow-500', fill: 'bg-yellow-500/15' },
+  low: { badge: 'bg-red-100 text-red-700', box: 'border-red-500', fill: 'bg-red-500/15' },
+};
+
+const getConfidenceStyle = (confidence: number) =>
+  confidence >= REVIEW_CONFIDENCE_THRESHOLD
+    ? CONFIDENCE_STYLES.high
+    : confidence >= LOW_CONFIDENCE_THRESHOLD
+    ? CONFIDENCE_STYLES.medium
+    : CONFIDENCE_STYLES.low;
+
+const formatFieldName = (key: string) => key.replace(/([A-Z])/g, ' $1').trim();
+
+const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+// Dates are shown in both calendars, since citizenship cards use Bikram Sambat
+function AlternateDate({
+  fieldKey,
+  field,
+  value,
+  documentType,
+}: {
+  fieldKey: string;
+  field: ExtractedFieldDto;
+  value: string;
+  documentType: DocumentType;
+}) {
+  const alternate = isDateField(fieldKey, field) ? alternateCalendarDate(fieldKey, value, documentType) : null;
+  return alternate ? <span className="block text-xs text-gray-500 mt-0.5">= {alternate}</span> : null;
+}
+
+const formatCorrection = (field: ExtractedFieldDto) => {
+  const who = field.correctedBy && field.correctedBy === authService.getUserId()
+    ? 'you'
+    : field.correctedBy ? `officer ${field.correctedBy.slice(0, 8)}` : 'an officer';
+  const when = field.correctedAt ? ` on ${new Date(field.correctedAt).toLocaleString()}` : '';
+  return `Corrected by ${who}${when}`;
+};
+
+export default function OcrFieldViewer({
+  ocrResult,
+  documentType,
+  imageUrl,
+  onOpenRawText,
+  corrections = {},
+  onCorrect,
+}: OcrFieldViewerProps) {
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [hoveredField, setHoveredField] = useState<string | null>(null);
+  const [selectedField, setSelectedField] = useState<string | null>(null);
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  const [showBoxes, setShowBoxes] = useState(true);
+  const [editingField, setEditingField] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const rowRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  const allFields = Object.entries(ocrResult.extractedFields ?? {});
+  const fields: [string, ExtractedFieldDto][] = lowConfidenceOnly
+    ? allFields.filter(([, field]) => field.confidence < REVIEW_CONFIDENCE_THRESHOLD)
+    : allFields;
+  const boxedFields = fields.filter(([, field]) => field.boundingBox);
+  const activeField = hoveredField ?? selectedField;
+
+  const selectField = (key: string, scrollToRow: boolean) => {
+    setSelectedField((current) => (current === key ? null : key));
+    if (scrollToRow) {
+      rowRefs.current[key]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  };
+
+  const startEditing = (key: string, field: ExtractedFieldDto) => {
+    setEditingField(key);
+    setDraft(corrections[key] ?? field.value ?? '');
+    setDraftError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingField(null);
+    setDraftError(null);
+  };
+
+  const saveDraft = (key: string, field: ExtractedFieldDto) => {
+    const problem = validateFieldCorrection(key, draft, documentType, field);
+    if (problem) {
+      setDraftError(problem);
+      return;
+    }
+
+    const value = normalizeFieldValue(key, draft);
+    // Going back to the stored value is the same as not correcting it
+    onCorrect?.(key, value === field.value ? null : value);
+    cancelEditing();
+  };
+
+  const pendingCount = Object.keys(corrections).length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900">
+          Extracted Data
+          {pendingCount > 0 && (
+            <span className="ml-2 text-xs font-normal px-2 py-0.5 rounded bg-blue-100 text-blue-700">
+              {pendingCount} unsaved {pendingCount === 1 ? 'correction' : 'corrections'}
+            </span>
+          )}
+        </h2>
+        {ocrResult.rawText && (
+          <button
+            type="button"
+            onClick={onOpenRawText}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            View Raw Text →
+          </button>
+        )}
+      </div>
+
+      {allFields.length === 0 ? (
+        <p className="text-sm text-gray-500">No fields extracted</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-700">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={lowConfidenceOnly}
+                onChange={(e) => setLowConfidenceOnly(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              />
+              Only fields below {Math.round(REVIEW_CONFIDENCE_THRESHOLD * 100)}% confidence
+            </label>
+            {imageUrl && (
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={showBoxes}
+                  onChange={(e) => setShowBoxes(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                Show field boxes
+              </label>
+            )}
+            <span className="flex items-center gap-3 text-xs text-gray-500">
+              <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-sm border-2 border-green-500"></span>≥90%</span>
+              <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-sm border-2 border-yellow-500"></span>70–89%</span>
+              <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-sm border-2 border-red-500"></span>&lt;70%</span>
+            </span>
+          </div>
+
+          {imageUrl && (
+            <div className="mb-4 flex justify-center bg-gray-50 rounded-lg border border-gray-200 p-2">
+              <div className="relative">
+                <img
+                  src={imageUrl}
+                  alt="ID document with extracted fields"
+                  className="block max-h-[32rem] max-w-full"
+                  onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                />
+
+                {showBoxes && naturalSize && boxedFields.map(([key, field]) => {
+                  const box = field.boundingBox!;
+                  const style = getConfidenceStyle(field.confidence);
+                  const isActive = activeField === key;
+
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      title={`${formatFieldName(key)}: ${field.value || 'N/A'} (${Math.round(field.confidence * 100)}%)`}
+                      aria-label={`Show ${formatFieldName(key)}`}
+                      onMouseEnter={() => setHoveredField(key)}
+                      onMouseLeave={() => setHoveredField(null)}
+                      onClick={() => selectField(key, true)}
+                      className={`absolute rounded-sm border-2 ${style.box} ${isActive ? `${style.fill} ring-2 ring-blue-500 z-10` : ''}`}
+                      style={{
+                        left: percent(box.x, naturalSize.width),
+                        top: percent(box.y, naturalSize.height),
+                        width: percent(box.width, naturalSize.width),
+                        height: percent(box.height, naturalSize.height),
+                      }}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {fields.length === 0 ? (
+            <p className="text-sm text-gray-500">Every field was read with at least {Math.round(REVIEW_CONFIDENCE_THRESHOLD * 100)}% confidence.</p>
+          ) : (
+            <dl className="grid grid-cols-2 gap-4">
+              {fields.map(([key, field]) => {
+                const isActive = activeField === key;
+                const pending = corrections[key];
+                const isEditing = editingField === key;
+
+                return (
+                  <div
+                    key={key}
+                    ref={(el) => {
+                      rowRefs.current[key] = el;
+                    }}
+                    onMouseEnter={() => setHoveredField(key)}
+                    onMouseLeave={() => setHoveredField(null)}
+                    onClick={() => selectField(key, false)}
+                    className={`border-l-2 pl-3 rounded-r cursor-pointer ${
+                      isActive ? 'border-blue-600 bg-blue-50' : pending !== undefined ? 'border-blue-400' : 'border-blue-200'
+                    }`}
+                  >
+                    <dt className="flex items-center justify-between text-sm font-medium text-gray-500">
+                      <span className="capitalize">
+                        {formatFieldName(key)}
+                        {imageUrl && !field.boundingBox && <span className="ml-1 text-xs font-normal normal-case text-gray-400">(no location)</span>}
+                      </span>
+                      {onCorrect && isCorrectableField(key) && !isEditing && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            startEditing(key, field);
+                          }}
+                          className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          {pending !== undefined || field.originalValue ? 'Edit' : 'Correct'}
+                        </button>
+                      )}
+                    </dt>
+                    <dd className="text-sm text-gray-900 mt-1">
+                      {isEditing ? (
+                        <div onClick={(e) => e.stopPropagation()}>
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              value={draft}
+                              autoFocus
+                              aria-label={`Corrected ${formatFieldName(key)}`}
+                              onChange={(e) => {
+                                setDraft(e.target.value);
+                                setDraftError(null);
+                              }}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                  e.preventDefault();
+                                  saveDraft(key, field);
+                                } else if (e.key === 'Escape') {
+                                  e.preventDefault();
+                                  cancelEditing();
+                                }
+                              }}
+                              className={`block w-full px-2 py-1 border rounded-md text-sm text-gray-900 bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                                draftError ? 'border-red-400' : 'border-gray-300'
+                              }`}
+                            />
+                            <button
+                              type="button"
+                              onClick={() => saveDraft(key, field)}
+                              className="px-2 py-1 text-xs font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700"
+                            >
+                              Save
+                            </button>
+                            <button
+                              type="button"
+                              onClick={cancelEditing}
+                              className="px-2 py-1 text-xs font-medium rounded-md text-gray-600 hover:bg-gray-100"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                          {draftError && <p className="mt-1 text-xs text-red-600">{draftError}</p>}
+                        </div>
+                      ) : pending !== undefined ? (
+                        <>
+                          <span className="font-medium">{pending}</span>
+                          <span className="ml-2 text-xs text-gray-400 line-through">{field.value || 'N/A'}</span>
+                          <AlternateDate fieldKey={key} field={field} value={pending} documentType={documentType} />
+                          <span className="block text-xs text-blue-700 mt-0.5">
+                            Pending: saved with your decision
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onCorrect?.(key, null);
+                              }}
+                              className="ml-2 underline hover:text-blue-900"
+                            >
+                              Undo
+                            </button>
+                          </span>
+                        </>
+                      ) : (
+                        <>
+                          <span className="font-medium">{field.value || 'N/A'}</span>
+                          <span className={`text-xs ml-2 px-2 py-0.5 rounded ${getConfidenceStyle(field.confidence).badge}`}>
+                            {Math.round(field.confidence * 100)}%
+                          </span>
+                          {field.value && <AlternateDate fieldKey={key} field={field} value={field.value} documentType={documentType} />}
+                          {field.originalValue !== undefined && field.originalValue !== null && (
+                            <span className="block text-xs text-gray-500 mt-0.5">
+                              {formatCorrection(field)}; OCR read <span className="line-through">{field.originalValue || 'N/A'}</span>
+                            </span>
+                          )}
+                        </>
+                      )}
+                    </dd>
+                  </div>
+                );
+              })}
+            </dl>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+
+interface RawTextDialogProps {
+  rawText: string;
+  onClose: () => void;
+}
+
+export default function RawTextDialog({ rawText, onClose }: RawTextDialogProps) {
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true" aria-labelledby="ocr-raw-text-title">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-50" onClick={onClose}></div>
+      <div className="fixed inset-0 flex items-center justify-center p-4 pointer-events-none">
+        <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col pointer-events-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <h3 id="ocr-raw-text-title" className="text-lg font-bold text-gray-900">OCR Raw Text</h3>
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <span className="sr-only">Close raw text</span>
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="p-6 overflow-y-auto flex-1">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <pre className="text-xs text-gray-700 whitespace-pre-wrap font-mono">{rawText}</pre>
+            </div>
+          </div>
+          <div className="p-6 border-t border-gray-200 flex justify-end">
+            <Button onClick={onClose} variant="outline">
+              Close
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { DecisionReasonCode } from '@/types/shared';
+
+interface ReasonCodePickerProps {
+  reasonCodes: DecisionReasonCode[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  disabled?: boolean;
+}
+
+export default function ReasonCodePicker({ reasonCodes, selected, onChange, disabled = false }: ReasonCodePickerProps) {
+  const groups = [
+    { title: 'Rejection reasons', codes: reasonCodes.filter((r) => r.appliesTo.includes('Rejected')) },
+    { title: 'Approval reasons', codes: reasonCodes.filter((r) => !r.appliesTo.includes('Rejected')) },
+  ].filter((group) => group.codes.length > 0);
+
+  const toggle = (code: string) => {
+    onChange(selected.includes(code) ? selected.filter((c) => c !== code) : [...selected, code]);
+  };
+
+  if (reasonCodes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {groups.map((group) => (
+        <fieldset key={group.title}>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">{group.title}</legend>
+          <div className="space-y-1.5">
+            {group.codes.map((reasonCode) => (
+              <label key={reasonCode.code} className="flex items-start text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(reasonCode.code)}
+                  onChange={() => toggle(reasonCode.code)}
+                  disabled={disabled}
+                  className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                <span>
+                  {reasonCode.label}
+                  {reasonCode.requiresNotes && <span className="ml-1 text-xs text-gray-500">(notes required)</span>}
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { forwardRef } from 'react';
+import { DocumentType, ResubmittableDocument } from '@/types/shared';
+
+interface ResubmissionRequestProps {
+  documentType: DocumentType;
+  selected: ResubmittableDocument[];
+  onChange: (selected: ResubmittableDocument[]) => void;
+  disabled?: boolean;
+}
+
+const DOCUMENT_OPTIONS: { value: ResubmittableDocument; label: string; hint: string }[] = [
+  { value: 'IDDocument', label: 'ID document (front)', hint: 'Clearer or uncropped photo of the document' },
+  { value: 'IDDocumentBack', label: 'ID document (back)', hint: 'Back side of the citizenship card' },
+  { value: 'Selfie', label: 'Selfie', hint: 'New photo of the applicant' },
+];
+
+// Only citizenship cards have a back side to upload
+export const getResubmittableDocuments = (documentType: DocumentType) =>
+  DOCUMENT_OPTIONS.filter((option) => option.value !== 'IDDocumentBack' || documentType === 'CitizenshipCard');
+
+const ResubmissionRequest = forwardRef<HTMLFieldSetElement, ResubmissionRequestProps>(
+  function ResubmissionRequest({ documentType, selected, onChange, disabled = false }, ref) {
+    const toggle = (value: ResubmittableDocument) => {
+      onChange(selected.includes(value) ? selected.filter((d) => d !== value) : [...selected, value]);
+    };
+
+    return (
+      <fieldset ref={ref} tabIndex={-1} className="focus:outline-none">
+        <legend className="block text-sm font-medium text-gray-700 mb-2">Ask the applicant to upload again</legend>
+        <div className="space-y-1.5">
+          {getResubmittableDocuments(documentType).map((option) => (
+            <label key={option.value} className="flex items-start text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={() => toggle(option.value)}
+                disabled={disabled}
+                className="mt-0.5 h-4 w-4 text-orange-600 border-gray-300 rounded mr-2"
+              />
+              <span>
+                {option.label}
+                <span className="block text-xs text-gray-500">{option.hint}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    );
+  }
+);
+
+export default ResubmissionRequest;
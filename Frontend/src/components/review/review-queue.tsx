@@ -1,11 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import DashboardLayout from '@/components/layout/dashboard-layout';
-import { VerificationDto, VerificationStatus } from '@/types/shared';
+import { VerificationDto, VerificationListResponse } from '@/types/shared';
 import { verificationService } from '@/lib/api/verification-service';
+import { authService } from '@/lib/auth/auth-service';
+import { webSocketService, useWebSocketConnection } from '@/lib/websocket/websocket-service';
+import { formatClaimant, getClaimInfo, reviewClaimService } from '@/lib/review/review-claims';
 import { Button } from '@/components/ui/button';
+import { Pagination } from '@/components/ui/pagination';
+
+const QUEUE_PAGE_SIZE = 50;
+// Bursts of live events collapse into one reload
+const LIVE_RELOAD_DELAY_MS = 1000;
+// Claims are not pushed, so the queue is also re-read on a timer
+const QUEUE_REFRESH_INTERVAL_MS = 30000;
 
 export default function ReviewQueue() {
   const router = useRouter();
@@ -13,23 +23,75 @@ export default function ReviewQueue() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const isLive = useWebSocketConnection() === 'connected';
+  const userId = authService.getUserId();
+  const currentPageRef = useRef(1);
+
+  const [pagination, setPagination] = useState<Omit<VerificationListResponse, 'verifications'>>({
+    currentPage: 1,
+    pageSize: QUEUE_PAGE_SIZE,
+    totalCount: 0,
+    totalPages: 0,
+    hasNextPage: false,
+    hasPreviousPage: false,
+  });
 
-  const loadReviewQueue = async () => {
+  // Background reloads keep the table on screen instead of showing the skeleton
+  const loadReviewQueue = async (page: number = pagination.currentPage, background = false) => {
+    currentPageRef.current = page;
     try {
-      setIsLoading(true);
-      const response = await verificationService.getReviewQueue({ page: 1, pageSize: 50 });
-      setVerifications(response.verifications);
+      if (!background) {
+        setIsLoading(true);
+      }
+      const { verifications: items, ...pageInfo } = await verificationService.getReviewQueue({
+        page,
+        pageSize: QUEUE_PAGE_SIZE,
+      });
+      setVerifications(items);
+      setPagination(pageInfo);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load review queue');
-      setVerifications([]);
+      if (!background) {
+        setVerifications([]);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
   useEffect(() => {
-    loadReviewQueue();
+    loadReviewQueue(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Cases arriving, being decided or changing hands reload the page being viewed
+  const reloadRef = useRef(loadReviewQueue);
+  reloadRef.current = loadReviewQueue;
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleReload = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => reloadRef.current(currentPageRef.current, true), LIVE_RELOAD_DELAY_MS);
+    };
+
+    const leaveQueue = webSocketService.joinReviewQueue();
+    const unsubscribe = webSocketService.onVerificationUpdate((message) => {
+      // Progress steps do not move a case in or out of the queue
+      if (message.data.progress === undefined) {
+        scheduleReload();
+      }
+    });
+    const interval = setInterval(scheduleReload, QUEUE_REFRESH_INTERVAL_MS);
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      clearInterval(interval);
+      unsubscribe();
+      leaveQueue();
+    };
   }, []);
 
   const filteredVerifications = selectedStatus === 'all'
@@ -44,6 +106,19 @@ export default function ReviewQueue() {
     router.push(`/review/${id}`);
   };
 
+  const handleClaim = async (id: string) => {
+    setClaimingId(id);
+    try {
+      await reviewClaimService.claim(id);
+      router.push(`/review/${id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to claim case');
+      loadReviewQueue(currentPageRef.current, true);
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'ReviewNeeded':
@@ -100,7 +175,13 @@ export default function ReviewQueue() {
       <div className="max-w-7xl mx-auto p-6">
         {/* Header */}
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Review Queue</h1>
+          <div className="flex items-center justify-between">
+            <h1 className="text-3xl font-bold text-gray-900">Review Queue</h1>
+            <span className="inline-flex items-center text-xs text-gray-500" title={isLive ? 'Receiving live updates' : 'Live updates unavailable; refreshing periodically'}>
+              <span className={`w-2 h-2 rounded-full mr-1.5 ${isLive ? 'bg-green-500' : 'bg-gray-400'}`}></span>
+              {isLive ? 'Live' : 'Auto-refresh'}
+            </span>
+          </div>
           <p className="mt-2 text-gray-600">
             Review verifications that require manual attention
           </p>
@@ -245,65 +326,93 @@ export default function ReviewQueue() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Score
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Reviewer
+                    </th>
                     <th className="relative px-6 py-3">
                       <span className="sr-only">Actions</span>
                     </th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {filteredVerifications.map((verification) => (
-                    <tr key={verification.id} className="hover:bg-gray-50">
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        {verification.referenceNumber}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {verification.documentType}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(verification.status)}`}>
-                          {verification.status}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                          verification.priority === 'Urgent' ? 'bg-red-100 text-red-800' :
-                          verification.priority === 'High' ? 'bg-orange-100 text-orange-800' :
-                          verification.priority === 'Low' ? 'bg-gray-100 text-gray-800' :
-                          'bg-blue-100 text-blue-800'
-                        }`}>
-                          {verification.priority}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {formatDate(verification.createdAt)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {verification.authenticityScore ? (
-                          <div className="flex items-center">
-                            <span className="mr-2">{verification.authenticityScore.overallScore}/100</span>
-                            <span className={`text-xs px-2 py-1 rounded-full ${
-                              verification.authenticityScore.classification === 'Genuine' ? 'text-green-600 bg-green-100' :
-                              verification.authenticityScore.classification === 'Suspicious' ? 'text-yellow-600 bg-yellow-100' :
-                              'text-red-600 bg-red-100'
+                  {filteredVerifications.map((verification) => {
+                    const claim = getClaimInfo(verification, userId);
+                    return (
+                      <tr key={verification.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {verification.referenceNumber}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {verification.documentType}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(verification.status)}`}>
+                            {verification.status}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                            verification.priority === 'Urgent' ? 'bg-red-100 text-red-800' :
+                            verification.priority === 'High' ? 'bg-orange-100 text-orange-800' :
+                            verification.priority === 'Low' ? 'bg-gray-100 text-gray-800' :
+                            'bg-blue-100 text-blue-800'
+                          }`}>
+                            {verification.priority}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatDate(verification.createdAt)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {verification.authenticityScore ? (
+                            <div className="flex items-center">
+                              <span className="mr-2">{verification.authenticityScore.overallScore}/100</span>
+                              <span className={`text-xs px-2 py-1 rounded-full ${
+                                verification.authenticityScore.classification === 'Genuine' ? 'text-green-600 bg-green-100' :
+                                verification.authenticityScore.classification === 'Suspicious' ? 'text-yellow-600 bg-yellow-100' :
+                                'text-red-600 bg-red-100'
+                              }`}>
+                                {verification.authenticityScore.classification}
+                              </span>
+                            </div>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {claim.state === 'unclaimed' ? (
+                            <span className="text-gray-400">Unclaimed</span>
+                          ) : (
+                            <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                              claim.state === 'mine' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
                             }`}>
-                              {verification.authenticityScore.classification}
+                              {claim.state === 'mine' ? 'You' : `In review by ${formatClaimant(claim)}`}
                             </span>
-                          </div>
-                        ) : (
-                          <span className="text-gray-400">-</span>
-                        )}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <Button
-                          onClick={() => handleReview(verification.id)}
-                          variant="primary"
-                          size="sm"
-                        >
-                          Review
-                        </Button>
-                      </td>
-                    </tr>
-                  ))}
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          {claim.state === 'unclaimed' && verification.status === 'ReviewNeeded' ? (
+                            <Button
+                              onClick={() => handleClaim(verification.id)}
+                              variant="primary"
+                              size="sm"
+                              disabled={claimingId !== null}
+                            >
+                              {claimingId === verification.id ? 'Claiming...' : 'Claim'}
+                            </Button>
+                          ) : (
+                            <Button
+                              onClick={() => handleReview(verification.id)}
+                              variant={claim.state === 'mine' ? 'primary' : 'outline'}
+                              size="sm"
+                            >
+                              {claim.state === 'mine' ? 'Continue' : claim.state === 'other' ? 'View' : 'Review'}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                      );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -326,10 +435,22 @@ export default function ReviewQueue() {
           </div>
         )}
 
+        {/* Pagination */}
+        <Pagination
+          currentPage={pagination.currentPage}
+          totalPages={pagination.totalPages}
+          totalCount={pagination.totalCount}
+          pageSize={pagination.pageSize}
+          hasNextPage={pagination.hasNextPage}
+          hasPreviousPage={pagination.hasPreviousPage}
+          onPageChange={loadReviewQueue}
+          disabled={isLoading}
+        />
+
         {/* Refresh Button */}
         <div className="mt-6 text-center">
           <Button
-            onClick={loadReviewQueue}
+            onClick={() => loadReviewQueue()}
             variant="outline"
             disabled={isLoading}
           >
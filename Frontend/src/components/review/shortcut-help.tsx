@@ -0,0 +1,64 @@
+'use client';
+
+import { REVIEW_SHORTCUTS, ReviewShortcut, ReviewShortcutAction, formatShortcutKey } from '@/lib/review/workstation';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+  /** Actions the current screen supports; the rest are listed greyed out. */
+  available: ReviewShortcutAction[];
+}
+
+const GROUPS: ReviewShortcut['group'][] = ['Decision', 'Navigation', 'Documents', 'General'];
+
+export default function ShortcutHelp({ onClose, available }: ShortcutHelpProps) {
+  return (
+    <div className="fixed inset-0 z-50" role="dialog" aria-modal="true" aria-labelledby="shortcut-help-title">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-50" onClick={onClose}></div>
+      <div className="fixed inset-0 flex items-center justify-center p-4 pointer-events-none">
+        <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto pointer-events-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <h2 id="shortcut-help-title" className="text-lg font-bold text-gray-900">Keyboard Shortcuts</h2>
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <span className="sr-only">Close shortcuts</span>
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            {GROUPS.map((group) => (
+              <div key={group}>
+                <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{group}</h3>
+                <dl className="space-y-2">
+                  {REVIEW_SHORTCUTS.filter((s) => s.group === group).map((shortcut) => {
+                    const isAvailable = available.includes(shortcut.action);
+                    return (
+                      <div
+                        key={shortcut.action}
+                        className={`flex items-center justify-between text-sm ${isAvailable ? 'text-gray-900' : 'text-gray-400'}`}
+                      >
+                        <dt>{shortcut.label}</dt>
+                        <dd className="ml-4 flex gap-1 shrink-0">
+                          {shortcut.keys.map((key) => (
+                            <kbd key={key} className="px-2 py-0.5 rounded border border-gray-300 bg-gray-50 font-mono text-xs">
+                              {formatShortcutKey(key)}
+                            </kbd>
+                          ))}
+                        </dd>
+                      </div>
+                    );
+                  })}
+                </dl>
+              </div>
+            ))}
+          </div>
+
+          <p className="px-6 pb-6 text-xs text-gray-500">
+            Shortcuts are active in workstation mode and are ignored while typing in the notes field.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
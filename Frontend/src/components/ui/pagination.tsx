@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+
+export interface PaginationProps {
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+  pageSize: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+const getVisiblePages = (currentPage: number, totalPages: number): number[] => {
+  const count = Math.min(5, totalPages);
+  let first = 1;
+  if (totalPages > 5) {
+    if (currentPage >= totalPages - 2) {
+      first = totalPages - 4;
+    } else if (currentPage > 3) {
+      first = currentPage - 2;
+    }
+  }
+  return Array.from({ length: count }, (_, i) => first + i);
+};
+
+function Pagination({
+  currentPage,
+  totalPages,
+  totalCount,
+  pageSize,
+  hasNextPage,
+  hasPreviousPage,
+  onPageChange,
+  disabled = false,
+}: PaginationProps) {
+  const [jumpTo, setJumpTo] = useState('');
+
+  if (totalPages <= 1 && !hasNextPage && !hasPreviousPage) {
+    return null;
+  }
+
+  const firstItem = totalCount === 0 ? 0 : (currentPage - 1) * pageSize + 1;
+  const lastItem = Math.min(currentPage * pageSize, totalCount);
+
+  const goTo = (page: number) => {
+    if (disabled || page === currentPage || page < 1 || page > totalPages) return;
+    onPageChange(page);
+  };
+
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const page = parseInt(jumpTo, 10);
+    if (!Number.isNaN(page)) {
+      goTo(Math.min(Math.max(page, 1), totalPages));
+    }
+    setJumpTo('');
+  };
+
+  return (
+    <div className="mt-6 flex flex-wrap items-center justify-between gap-4">
+      <div className="text-sm text-gray-700">
+        Showing {firstItem} to {lastItem} of {totalCount}{hasNextPage && lastItem === totalCount ? '+' : ''} results
+      </div>
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={() => goTo(currentPage - 1)}
+          disabled={disabled || !hasPreviousPage}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Previous
+        </button>
+
+        <div className="flex items-center space-x-1">
+          {getVisiblePages(currentPage, totalPages).map((pageNumber) => (
+            <button
+              key={pageNumber}
+              type="button"
+              onClick={() => goTo(pageNumber)}
+              disabled={disabled}
+              className={`px-3 py-1 text-sm font-medium rounded-md ${
+                pageNumber === currentPage
+                  ? 'bg-blue-600 text-white'
+                  : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {pageNumber}
+            </button>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => goTo(currentPage + 1)}
+          disabled={disabled || !hasNextPage}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Next
+        </button>
+
+        {totalPages > 5 && (
+          <form onSubmit={handleJump} className="flex items-center space-x-1">
+            <label htmlFor="pagination-jump" className="text-sm text-gray-600">
+              Go to
+            </label>
+            <input
+              id="pagination-jump"
+              type="number"
+              min={1}
+              max={totalPages}
+              value={jumpTo}
+              onChange={(e) => setJumpTo(e.target.value)}
+              disabled={disabled}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export { Pagination };
@@ -0,0 +1,73 @@
+'use client';
+
+import { VerificationDto } from '@/types/shared';
+import { ConsistencyLevel, ReconciliationStatus, reconcileApplicantData } from '@/lib/verification/reconciliation';
+
+interface DataReconciliationProps {
+  verification: VerificationDto;
+  /** Pending OCR corrections to compare against instead of the stored values. */
+  corrections?: Record<string, string>;
+}
+
+const STATUS_STYLES: Record<ReconciliationStatus, { label: string; className: string }> = {
+  match: { label: 'Match', className: 'bg-green-100 text-green-700' },
+  partial: { label: 'Close', className: 'bg-yellow-100 text-yellow-700' },
+  mismatch: { label: 'Mismatch', className: 'bg-red-100 text-red-700' },
+  missing: { label: 'Missing', className: 'bg-gray-100 text-gray-600' },
+};
+
+const LEVEL_STYLES: Record<ConsistencyLevel, { label: string; className: string }> = {
+  consistent: { label: 'Consistent', className: 'bg-green-50 border-green-200 text-green-800' },
+  needsReview: { label: 'Needs review', className: 'bg-yellow-50 border-yellow-200 text-yellow-800' },
+  inconsistent: { label: 'Inconsistent', className: 'bg-red-50 border-red-200 text-red-800' },
+  insufficient: { label: 'Nothing to compare', className: 'bg-gray-50 border-gray-200 text-gray-700' },
+};
+
+export default function DataReconciliation({ verification, corrections }: DataReconciliationProps) {
+  const { fields, level, score } = reconcileApplicantData(verification, corrections);
+  const levelStyle = LEVEL_STYLES[level];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900">Applicant vs. Document</h2>
+        <span className={`inline-flex items-center px-3 py-1 rounded-full border text-sm font-medium ${levelStyle.className}`}>
+          {levelStyle.label}
+          {score !== undefined && <span className="ml-1 font-normal">({Math.round(score * 100)}%)</span>}
+        </span>
+      </div>
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <th className="pb-2 pr-4">Field</th>
+            <th className="pb-2 pr-4">Entered</th>
+            <th className="pb-2 pr-4">On document</th>
+            <th className="pb-2">Result</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {fields.map((field) => {
+            const statusStyle = STATUS_STYLES[field.status];
+            return (
+              <tr key={field.field} className="align-top">
+                <td className="py-2 pr-4 font-medium text-gray-700">{field.label}</td>
+                <td className="py-2 pr-4 text-gray-900">{field.applicantValue || '—'}</td>
+                <td className="py-2 pr-4 text-gray-900">
+                  {field.extractedValue || '—'}
+                  {field.extractedField === 'dateOfBirthBS' && <span className="ml-1 text-xs text-gray-500">(BS)</span>}
+                </td>
+                <td className="py-2">
+                  <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${statusStyle.className}`}>
+                    {statusStyle.label}
+                  </span>
+                  {field.note && <p className="mt-1 text-xs text-gray-500">{field.note}</p>}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import {
+  BS_MIN_YEAR,
+  BS_MONTHS,
+  bsToGregorian,
+  daysInBsMonth,
+  formatBsDate,
+  gregorianToBs,
+} from '@/lib/verification/bikram-sambat';
+
+export type CalendarSystem = 'AD' | 'BS';
+
+interface DualCalendarDateInputProps {
+  id: string;
+  /** Gregorian "YYYY-MM-DD", or empty. */
+  value: string;
+  onChange: (value: string) => void;
+  calendar: CalendarSystem;
+  onCalendarChange: (calendar: CalendarSystem) => void;
+  error?: string;
+}
+
+const selectClasses =
+  'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-gray-900 bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const splitBs = (value: string) => {
+  const bs = value ? gregorianToBs(value) : null;
+  const [year = '', month = '', day = ''] = bs ? bs.split('-').map((part) => String(Number(part))) : [];
+  return { year, month, day };
+};
+
+/**
+ * Date picker that accepts either calendar and always reports the Gregorian
+ * date, showing the other calendar's equivalent underneath.
+ */
+export default function DualCalendarDateInput({
+  id,
+  value,
+  onChange,
+  calendar,
+  onCalendarChange,
+  error,
+}: DualCalendarDateInputProps) {
+  // Only used while the BS date is incomplete; a complete one is derived from value
+  const [pendingBs, setPendingBs] = useState({ year: '', month: '', day: '' });
+  const bsParts = value ? splitBs(value) : pendingBs;
+
+  const currentBsYear = Number((gregorianToBs(new Date().toISOString().slice(0, 10)) ?? '').slice(0, 4)) || BS_MIN_YEAR;
+  const years = Array.from({ length: currentBsYear - BS_MIN_YEAR + 1 }, (_, i) => currentBsYear - i);
+  const monthDays = bsParts.year && bsParts.month ? daysInBsMonth(Number(bsParts.year), Number(bsParts.month)) ?? 0 : 32;
+
+  const updateBs = (part: 'year' | 'month' | 'day', partValue: string) => {
+    const next = { ...bsParts, [part]: partValue };
+    // Drop a day the newly chosen month does not have
+    const days = next.year && next.month ? daysInBsMonth(Number(next.year), Number(next.month)) : null;
+    if (days !== null && Number(next.day) > days) next.day = '';
+    setPendingBs(next);
+
+    const complete = next.year && next.month && next.day;
+    onChange(complete ? bsToGregorian(`${next.year}-${next.month}-${next.day}`) ?? '' : '');
+  };
+
+  const bsValue = value ? gregorianToBs(value) : null;
+
+  return (
+    <div>
+      <div className="inline-flex mb-2 rounded-md shadow-sm" role="group" aria-label="Calendar">
+        {(['AD', 'BS'] as CalendarSystem[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onCalendarChange(option)}
+            aria-pressed={calendar === option}
+            className={`px-3 py-1 text-xs font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md ${
+              calendar === option ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option === 'AD' ? 'Gregorian (AD)' : 'Bikram Sambat (BS)'}
+          </button>
+        ))}
+      </div>
+
+      {calendar === 'AD' ? (
+        <Input
+          id={id}
+          name={id}
+          type="date"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          error={error}
+          helperText={value ? (bsValue ? `${formatBsDate(bsValue)} BS` : 'No Bikram Sambat equivalent on record') : undefined}
+        />
+      ) : (
+        <div>
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              id={id}
+              aria-label="Year (BS)"
+              value={bsParts.year}
+              onChange={(e) => updateBs('year', e.target.value)}
+              className={selectClasses}
+            >
+              <option value="">Year</option>
+              {years.map((year) => (
+                <option key={year} value={year}>
+                  {year}
+                </option>
+              ))}
+            </select>
+            <select
+              aria-label="Month (BS)"
+              value={bsParts.month}
+              onChange={(e) => updateBs('month', e.target.value)}
+              className={selectClasses}
+            >
+              <option value="">Month</option>
+              {BS_MONTHS.map((month, index) => (
+                <option key={month} value={index + 1}>
+                  {month}
+                </option>
+              ))}
+            </select>
+            <select
+              aria-label="Day (BS)"
+              value={bsParts.day}
+              onChange={(e) => updateBs('day', e.target.value)}
+              className={selectClasses}
+            >
+              <option value="">Day</option>
+              {Array.from({ length: monthDays }, (_, i) => i + 1).map((day) => (
+                <option key={day} value={day}>
+                  {day}
+                </option>
+              ))}
+            </select>
+          </div>
+          {error ? (
+            <p className="mt-1 text-sm text-red-600">{error}</p>
+          ) : (
+            value && <p className="mt-1 text-sm text-gray-500">{value} AD</p>
+          )}
+          <p className="mt-1 text-xs text-gray-500">Dates from {BS_MIN_YEAR} BS (1943 AD) can be converted</p>
+        </div>
+      )}
+    </div>
+  );
+}
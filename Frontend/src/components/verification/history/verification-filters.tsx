@@ -10,9 +10,9 @@ interface VerificationFiltersProps {
 
 export interface VerificationFilters {
   searchTerm: string;
-  status: string[];
-  documentType: string[];
-  priority: string[];
+  status: VerificationStatus[];
+  documentType: DocumentType[];
+  priority: Priority[];
   dateRange: {
     startDate: string;
     endDate: string;
@@ -25,6 +25,7 @@ const statusOptions: { value: VerificationStatus; label: string }[] = [
   { value: 'Approved', label: 'Approved' },
   { value: 'Rejected', label: 'Rejected' },
   { value: 'ReviewNeeded', label: 'Review Needed' },
+  { value: 'ActionRequired', label: 'Action Required' },
 ];
 
 const documentTypeOptions: { value: DocumentType; label: string }[] = [
@@ -0,0 +1,98 @@
+'use client';
+
+import { useMemo } from 'react';
+import { OcrResultDto } from '@/types/shared';
+import { MrzResult, parseMrzFromText } from '@/lib/verification/mrz';
+
+interface MrzSummaryProps {
+  ocrResult: OcrResultDto;
+  /** Pending OCR corrections to compare against instead of the stored values. */
+  corrections?: Record<string, string>;
+  className?: string;
+}
+
+// MRZ fields shown in the table, with the OCR field each one is compared to
+const MRZ_FIELDS: { key: keyof MrzResult; label: string; ocrField?: string }[] = [
+  { key: 'documentNumber', label: 'Document Number', ocrField: 'documentNumber' },
+  { key: 'surname', label: 'Surname', ocrField: 'surname' },
+  { key: 'givenNames', label: 'Given Names', ocrField: 'givenNames' },
+  { key: 'nationality', label: 'Nationality', ocrField: 'nationality' },
+  { key: 'dateOfBirth', label: 'Date of Birth', ocrField: 'dateOfBirth' },
+  { key: 'sex', label: 'Sex', ocrField: 'sex' },
+  { key: 'expirationDate', label: 'Expiry Date', ocrField: 'expirationDate' },
+  { key: 'issuingState', label: 'Issuing State' },
+  { key: 'personalNumber', label: 'Personal Number', ocrField: 'personalNumber' },
+];
+
+const comparable = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export default function MrzSummary({ ocrResult, corrections, className = '' }: MrzSummaryProps) {
+  const mrz = useMemo(() => parseMrzFromText(ocrResult.rawText), [ocrResult.rawText]);
+
+  if (!mrz) {
+    return null;
+  }
+
+  const failedChecks = mrz.checks.filter((c) => !c.valid);
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900">Machine-Readable Zone</h2>
+        <div className="flex items-center space-x-2">
+          <span className="text-xs text-gray-500">{mrz.format}</span>
+          <span
+            className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
+              mrz.valid ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+            }`}
+          >
+            {mrz.valid ? 'Check digits valid' : `${failedChecks.length} check digit${failedChecks.length === 1 ? '' : 's'} failed`}
+          </span>
+        </div>
+      </div>
+
+      <pre className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded text-xs font-mono text-gray-800 overflow-x-auto">
+        {mrz.lines.join('\n')}
+      </pre>
+
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3 mb-4">
+        {MRZ_FIELDS.map(({ key, label, ocrField }) => {
+          const value = mrz[key] as string | undefined;
+          if (!value) return null;
+
+          const ocrValue = ocrField ? corrections?.[ocrField] ?? ocrResult.extractedFields?.[ocrField]?.value : undefined;
+          const differs = !!ocrValue && comparable(ocrValue) !== comparable(value);
+
+          return (
+            <div key={key}>
+              <dt className="text-xs font-medium text-gray-500">{label}</dt>
+              <dd className="text-sm text-gray-900">{value}</dd>
+              {differs && <dd className="text-xs text-yellow-700">OCR field reads “{ocrValue}”</dd>}
+            </div>
+          );
+        })}
+      </dl>
+
+      <ul className="space-y-1">
+        {mrz.checks.map((c) => (
+          <li key={c.field} className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">{c.label} check digit</span>
+            {c.valid ? (
+              <span className="text-green-600">✓ {c.actual}</span>
+            ) : (
+              <span className="text-red-600">
+                ✗ read {c.actual}, expected {c.expected}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {!mrz.valid && (
+        <p className="mt-3 text-xs text-gray-500">
+          A failed check digit usually means a character was misread; compare the MRZ lines with the document image.
+        </p>
+      )}
+    </div>
+  );
+}
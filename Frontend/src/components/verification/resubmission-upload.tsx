@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { ResubmitDocumentsRequest, ResubmittableDocument, VerificationDto } from '@/types/shared';
+import { verificationService } from '@/lib/api/verification-service';
+import { Button } from '@/components/ui/button';
+
+interface ResubmissionUploadProps {
+  verification: VerificationDto;
+  onResubmitted: () => void;
+}
+
+const DOCUMENT_FIELDS: Record<ResubmittableDocument, { field: keyof ResubmitDocumentsRequest; label: string; isSelfie: boolean }> = {
+  IDDocument: { field: 'idDocument', label: 'ID document (front)', isSelfie: false },
+  IDDocumentBack: { field: 'idDocumentBack', label: 'ID document (back)', isSelfie: false },
+  Selfie: { field: 'selfieImage', label: 'Selfie', isSelfie: true },
+};
+
+// Same limits as the original upload
+const validateFile = (file: File, isSelfie: boolean): string | null => {
+  const maxSize = isSelfie ? 5 * 1024 * 1024 : 10 * 1024 * 1024;
+  if (file.size > maxSize) {
+    return `File size must be less than ${maxSize / (1024 * 1024)}MB`;
+  }
+  const allowedTypes = isSelfie
+    ? ['image/jpeg', 'image/jpg', 'image/png', 'image/bmp']
+    : ['image/jpeg', 'image/jpg', 'image/png', 'image/bmp', 'image/tiff', 'application/pdf'];
+  if (!allowedTypes.includes(file.type)) {
+    return `Invalid file type. Allowed types: ${allowedTypes.join(', ')}`;
+  }
+  return null;
+};
+
+export default function ResubmissionUpload({ verification, onResubmitted }: ResubmissionUploadProps) {
+  const [files, setFiles] = useState<ResubmitDocumentsRequest>({});
+  const [errors, setErrors] = useState<Partial<Record<ResubmittableDocument, string>>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const requested = verification.requestedDocuments ?? [];
+  const isComplete = requested.every((document) => files[DOCUMENT_FIELDS[document].field]);
+
+  const handleFileChange = (document: ResubmittableDocument, file: File | undefined) => {
+    const { field, isSelfie } = DOCUMENT_FIELDS[document];
+    const problem = file ? validateFile(file, isSelfie) : null;
+
+    setErrors((prev) => ({ ...prev, [document]: problem ?? undefined }));
+    setFiles((prev) => ({ ...prev, [field]: problem ? undefined : file }));
+    setSubmitError(null);
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await verificationService.resubmitDocuments(verification.id, files);
+      setFiles({});
+      onResubmitted();
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to upload documents');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-orange-50 border border-orange-200 rounded-lg p-6 mb-6">
+      <h2 className="text-lg font-medium text-orange-900 mb-2">Action Required</h2>
+      <p className="text-sm text-orange-800 mb-4">
+        {verification.userActionRequired || 'Please upload the requested documents again.'}
+      </p>
+
+      {requested.length === 0 ? (
+        <p className="text-sm text-gray-700">Contact support for details on what needs to be updated.</p>
+      ) : (
+        <div className="space-y-4">
+          {requested.map((document) => (
+            <div key={document} className="bg-white rounded-md p-4 border border-orange-200">
+              <label htmlFor={`resubmit-${document}`} className="block text-sm font-medium text-gray-900 mb-2">
+                {DOCUMENT_FIELDS[document].label}
+              </label>
+              <input
+                id={`resubmit-${document}`}
+                type="file"
+                accept={DOCUMENT_FIELDS[document].isSelfie ? 'image/*' : 'image/*,.pdf'}
+                onChange={(e) => handleFileChange(document, e.target.files?.[0])}
+                disabled={isSubmitting}
+                className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-orange-100 file:text-orange-700 hover:file:bg-orange-200"
+              />
+              {errors[document] && <p className="mt-2 text-sm text-red-600">{errors[document]}</p>}
+            </div>
+          ))}
+
+          {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+          <Button onClick={handleSubmit} disabled={!isComplete || isSubmitting} className="w-full sm:w-auto">
+            {isSubmitting ? 'Uploading...' : 'Upload and Resume Verification'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,10 +4,12 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import DashboardLayout from '@/components/layout/dashboard-layout';
 import DocumentUpload from '@/components/verification/document-upload';
+import DualCalendarDateInput, { CalendarSystem } from '@/components/verification/dual-calendar-date-input';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { CreateVerificationRequest, DocumentType, Priority } from '@/types/shared';
 import { verificationService } from '@/lib/api/verification-service';
+import { ValidationApiError } from '@/lib/api/errors';
 
 export default function VerificationForm() {
   const router = useRouter();
@@ -21,6 +23,8 @@ export default function VerificationForm() {
     priority: 'Normal',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Citizenship cards print dates in Bikram Sambat, so applicants usually know that one
+  const [dobCalendar, setDobCalendar] = useState<CalendarSystem>('AD');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const documentTypes: { value: DocumentType; label: string }[] = [
@@ -43,10 +47,18 @@ export default function VerificationForm() {
     if (name === 'documentType' && value !== 'CitizenshipCard') {
       updates.idDocumentBack = undefined;
     }
+    if (name === 'documentType') {
+      setDobCalendar(value === 'CitizenshipCard' ? 'BS' : 'AD');
+    }
     setFormData(prev => ({ ...prev, ...updates }));
     if (errors[name]) setErrors(prev => ({ ...prev, [name]: '' }));
   };
 
+  const handleDateOfBirthChange = (value: string) => {
+    setFormData(prev => ({ ...prev, dateOfBirth: value }));
+    if (errors.dateOfBirth) setErrors(prev => ({ ...prev, dateOfBirth: '' }));
+  };
+
   const handleFilesSelected = (files: { idDocument?: File; selfieImage?: File; idDocumentBack?: File }) => {
     setFormData(prev => ({
       ...prev,
@@ -103,7 +115,12 @@ export default function VerificationForm() {
       router.push(`/verify/${verification.id}/status`);
     } catch (error) {
       console.error('Verification creation failed:', error);
-      setErrors({ submit: error instanceof Error ? error.message : 'Failed to create verification' });
+      if (error instanceof ValidationApiError && error.validationErrors.length > 0) {
+        // Show server-side validation messages next to the inputs they belong to
+        setErrors({ ...error.fieldErrors, submit: error.message });
+      } else {
+        setErrors({ submit: error instanceof Error ? error.message : 'Failed to create verification' });
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -171,12 +188,12 @@ export default function VerificationForm() {
                 <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700 mb-1">
                   Date of Birth
                 </label>
-                <Input
+                <DualCalendarDateInput
                   id="dateOfBirth"
-                  name="dateOfBirth"
-                  type="date"
-                  value={formData.dateOfBirth}
-                  onChange={handleInputChange}
+                  value={formData.dateOfBirth ?? ''}
+                  onChange={handleDateOfBirthChange}
+                  calendar={dobCalendar}
+                  onCalendarChange={setDobCalendar}
                   error={errors.dateOfBirth}
                 />
               </div>
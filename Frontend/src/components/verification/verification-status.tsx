@@ -1,10 +1,16 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import DashboardLayout from '@/components/layout/dashboard-layout';
 import { VerificationDto, VerificationStatus } from '@/types/shared';
 import { verificationService } from '@/lib/api/verification-service';
+import { ApiError } from '@/lib/api/errors';
+import { useWebSocketConnection, useVerificationUpdates } from '@/lib/websocket/websocket-service';
+import { useReasonCodes } from '@/lib/verification/reason-codes';
+import ResubmissionUpload from '@/components/verification/resubmission-upload';
+import DataReconciliation from '@/components/verification/data-reconciliation';
+import MrzSummary from '@/components/verification/mrz-summary';
 
 interface Stage {
   id: string;
@@ -13,6 +19,24 @@ interface Stage {
   description: string;
 }
 
+// Fallback refresh rate while the live connection is unavailable
+const POLL_INTERVAL_MS = 5000;
+
+// Stage names reported by the workflow, mapped onto the timeline
+const LIVE_STAGE_IDS: Record<string, string> = {
+  ocr: 'ocr',
+  aianalysis: 'analysis',
+  analysis: 'analysis',
+  facematching: 'facematch',
+  facematch: 'facematch',
+  decision: 'decision',
+  finaldecision: 'decision',
+  workflow: 'decision',
+};
+
+const toStageId = (stage: string): string | undefined =>
+  LIVE_STAGE_IDS[stage.toLowerCase().replace(/[^a-z]/g, '')];
+
 export default function VerificationStatus() {
   const params = useParams();
   const router = useRouter();
@@ -21,9 +45,17 @@ export default function VerificationStatus() {
   const [verification, setVerification] = useState<VerificationDto | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [errorStatus, setErrorStatus] = useState<number | null>(null);
   const [isStarting, setIsStarting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  // Latest progress (0-100) per stage id, as pushed over the socket
+  const [stageProgress, setStageProgress] = useState<Record<string, number>>({});
+
+  const connectionStatus = useWebSocketConnection();
+  const reasonCodes = useReasonCodes();
+  const liveUpdate = useVerificationUpdates(verificationId);
+  const isLive = connectionStatus === 'connected';
 
   const stages: Stage[] = [
     {
@@ -58,30 +90,55 @@ export default function VerificationStatus() {
     },
   ];
 
-  const loadVerification = async () => {
+  const loadVerification = useCallback(async () => {
     try {
       const data = await verificationService.getVerification(verificationId);
       setVerification(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load verification');
+      setErrorStatus(err instanceof ApiError ? err.status : null);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [verificationId]);
+
+  const isFinished = verification?.status === 'Approved' || verification?.status === 'Rejected';
 
   useEffect(() => {
     if (verificationId) {
       loadVerification();
+    }
+  }, [verificationId, loadVerification]);
 
-      // Set up polling for real-time updates (only if not completed)
-      const interval = setInterval(() => {
-        if (verification?.status !== 'Approved' && verification?.status !== 'Rejected') {
-          loadVerification();
-        }
-      }, 5000);
-      return () => clearInterval(interval);
+  // Poll only while the socket is down; live updates cover the connected case
+  useEffect(() => {
+    if (!verificationId || isLive || isFinished) {
+      return;
     }
-  }, [verificationId, verification?.status]);
+
+    const interval = setInterval(loadVerification, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [verificationId, isLive, isFinished, loadVerification]);
+
+  useEffect(() => {
+    if (!liveUpdate) {
+      return;
+    }
+
+    const { status, stage, progress } = liveUpdate.data;
+    const stageId = stage ? toStageId(stage) : undefined;
+    if (stageId && typeof progress === 'number') {
+      setStageProgress(prev => ({ ...prev, [stageId]: progress }));
+    }
+
+    // Stage results (OCR text, scores, decision) only come with the full record,
+    // so reload when a stage finishes or the overall status changes
+    if (typeof progress !== 'number' || progress >= 100) {
+      loadVerification();
+    } else {
+      setVerification(prev => prev && prev.status !== status ? { ...prev, status: status as VerificationStatus } : prev);
+    }
+  }, [liveUpdate, loadVerification]);
 
   const handleStartProcessing = async () => {
     if (!verification) return;
@@ -118,6 +175,12 @@ export default function VerificationStatus() {
       if (stage.id === 'decision') return verification.status === 'Rejected' ? 'error' : 'completed';
     }
 
+    // Live progress is ahead of the last loaded record
+    const progress = stageProgress[stage.id];
+    if (stage.status !== 'completed' && progress !== undefined) {
+      return progress >= 100 ? 'completed' : 'processing';
+    }
+
     return stage.status;
   };
 
@@ -164,6 +227,8 @@ export default function VerificationStatus() {
         return 'text-blue-600 bg-blue-100';
       case 'ReviewNeeded':
         return 'text-yellow-600 bg-yellow-100';
+      case 'ActionRequired':
+        return 'text-orange-600 bg-orange-100';
       default:
         return 'text-gray-600 bg-gray-100';
     }
@@ -197,8 +262,11 @@ export default function VerificationStatus() {
       <DashboardLayout>
         <div className="max-w-4xl mx-auto p-6">
           <div className="text-center">
-            <div className="text-red-600 text-4xl mb-4">❌</div>
-            <h2 className="text-2xl font-bold text-gray-900 mb-2">Error Loading Verification</h2>
+            <div className="text-red-600 text-4xl mb-4">{errorStatus === 403 ? '🔒' : '❌'}</div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              {errorStatus === 404 ? 'Verification Not Found' :
+               errorStatus === 403 ? 'Access Denied' : 'Error Loading Verification'}
+            </h2>
             <p className="text-gray-600 mb-6">{error || 'Verification not found'}</p>
             <button
               onClick={() => router.push('/dashboard')}
@@ -234,6 +302,12 @@ export default function VerificationStatus() {
                   {isStarting ? 'Starting...' : (verification.errorMessage && verification.errorMessage.trim() !== '') ? 'Retry Processing' : 'Start Processing'}
                 </button>
               )}
+              {!isFinished && (
+                <span className="inline-flex items-center text-xs text-gray-500" title={isLive ? 'Receiving live updates' : 'Live updates unavailable; refreshing periodically'}>
+                  <span className={`w-2 h-2 rounded-full mr-1.5 ${isLive ? 'bg-green-500' : 'bg-gray-400'}`}></span>
+                  {isLive ? 'Live' : 'Auto-refresh'}
+                </span>
+              )}
               <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(verification.status)}`}>
                 {verification.status}
               </span>
@@ -264,6 +338,10 @@ export default function VerificationStatus() {
           </div>
         )}
 
+        {verification.status === 'ActionRequired' && (
+          <ResubmissionUpload verification={verification} onResubmitted={loadVerification} />
+        )}
+
         {/* Progress Stages */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
           <h2 className="text-lg font-medium text-gray-900 mb-6">Processing Stages</h2>
@@ -278,11 +356,20 @@ export default function VerificationStatus() {
                     <p className="text-sm font-medium text-gray-900">{stage.name}</p>
                     <p className="text-xs text-gray-500">
                       {getStageStatus(stage) === 'completed' ? 'Completed' :
-                       getStageStatus(stage) === 'processing' ? 'Processing...' :
+                       getStageStatus(stage) === 'processing'
+                         ? stageProgress[stage.id] !== undefined ? `Processing... ${Math.round(stageProgress[stage.id])}%` : 'Processing...' :
                        getStageStatus(stage) === 'error' ? 'Error' : 'Pending'}
                     </p>
                   </div>
                   <p className="text-sm text-gray-600 mt-1">{stage.description}</p>
+                  {getStageStatus(stage) === 'processing' && stageProgress[stage.id] !== undefined && (
+                    <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
+                      <div
+                        className="bg-blue-600 h-1.5 rounded-full transition-all"
+                        style={{ width: `${Math.min(100, Math.max(0, stageProgress[stage.id]))}%` }}
+                      ></div>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -325,6 +412,27 @@ export default function VerificationStatus() {
                   <dd className="text-sm text-gray-900">{verification.decisionReason}</dd>
                 </div>
               )}
+              {verification.reasonCodes && verification.reasonCodes.length > 0 && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Why</dt>
+                  <dd className="text-sm text-gray-900">
+                    <ul className="list-disc list-inside space-y-1">
+                      {verification.reasonCodes.map((code) => {
+                        const reasonCode = reasonCodes.find((r) => r.code === code);
+                        return (
+                          <li key={code}>
+                            {reasonCode ? (
+                              <>
+                                <span className="font-medium">{reasonCode.label}:</span> {reasonCode.applicantMessage}
+                              </>
+                            ) : code}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </dd>
+                </div>
+              )}
             </dl>
           </div>
 
@@ -417,6 +525,16 @@ export default function VerificationStatus() {
           )}
         </div>
 
+        {/* Machine-readable zone */}
+        {verification.ocrResult && <MrzSummary ocrResult={verification.ocrResult} className="mb-8" />}
+
+        {/* Applicant vs. OCR data */}
+        {verification.ocrResult && (verification.applicantName || verification.applicantDateOfBirth) && (
+          <div className="mb-8">
+            <DataReconciliation verification={verification} />
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex justify-between items-center">
           <button
@@ -1,137 +1,156 @@
-import { authService } from '@/lib/auth/auth-service';
+import { buildQueryString, QueryParams } from './query-string';
+import {
+  ApiRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+  authHeaderInterceptor,
+  correlationIdInterceptor,
+  refreshOnUnauthorizedInterceptor,
+  loggingInterceptor,
+  errorNormalizationInterceptor,
+} from './interceptors';
+import { NetworkError, TimeoutError } from './errors';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
+const DEFAULT_TIMEOUT_MS = 30000;
+// Multipart uploads carry full-resolution document scans
+const UPLOAD_TIMEOUT_MS = 120000;
+
+type FormValue = string | number | boolean;
 
 class ApiClient {
   private baseUrl: string;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
 
   constructor(baseUrl: string = API_BASE_URL) {
     this.baseUrl = baseUrl;
   }
 
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
+  // Interceptors run in registration order; each returns a function that removes it
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      const index = this.requestInterceptors.indexOf(interceptor);
+      if (index > -1) {
+        this.requestInterceptors.splice(index, 1);
+      }
+    };
+  }
 
-    // Get auth headers
-    const authHeaders = authService.getAuthHeader();
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      const index = this.responseInterceptors.indexOf(interceptor);
+      if (index > -1) {
+        this.responseInterceptors.splice(index, 1);
+      }
+    };
+  }
 
-    // Merge headers
-    const headers = {
-      'Content-Type': 'application/json',
-      ...authHeaders,
-      ...options.headers,
+  // Single pipeline every request goes through
+  private async send(endpoint: string, init: RequestInit = {}, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<Response> {
+    let request: ApiRequest = {
+      url: `${this.baseUrl}${endpoint}`,
+      init: { ...init, headers: new Headers(init.headers) },
+      retryCount: 0,
+      startedAt: Date.now(),
     };
 
-    // Try the request
-    let response = await fetch(url, {
-      ...options,
-      headers,
-    });
+    const dispatch = async (): Promise<Response> => {
+      for (const interceptor of this.requestInterceptors) {
+        request = await interceptor(request);
+      }
 
-    // If unauthorized, try to refresh token
-    if (response.status === 401) {
-      const newToken = await authService.refreshAccessToken();
-      if (newToken) {
-        // Retry with new token
-        response = await fetch(url, {
-          ...options,
-          headers: {
-            ...headers,
-            'Authorization': `Bearer ${newToken}`,
-          },
-        });
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        return await fetch(request.url, { ...request.init, signal: controller.signal });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new TimeoutError(timeoutMs);
+        }
+        console.error('Network error:', error);
+        throw new NetworkError();
+      } finally {
+        clearTimeout(timer);
       }
-    }
+    };
+
+    let response = await dispatch();
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    for (const interceptor of this.responseInterceptors) {
+      response = await interceptor(response, {
+        request,
+        retry: () => {
+          request = { ...request, retryCount: request.retryCount + 1, startedAt: Date.now() };
+          return dispatch();
+        },
+      });
     }
 
-    return response.json();
+    return response;
   }
 
-  async get<T>(endpoint: string, params?: Record<string, any>): Promise<T> {
-    const url = new URL(`${this.baseUrl}${endpoint}`);
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          url.searchParams.append(key, String(value));
-        }
-      });
-    }
+  private async request<T>(endpoint: string, options: RequestInit = {}, timeoutMs?: number): Promise<T> {
+    const response = await this.send(endpoint, options, timeoutMs);
 
-    return this.request<T>(endpoint, {
-      method: 'GET',
-    });
+    // Handle empty response bodies (e.g. DELETE)
+    const text = await response.text();
+    if (!text) {
+      return {} as T;
+    }
+    return JSON.parse(text) as T;
   }
 
-  async post<T>(endpoint: string, data?: any): Promise<T> {
+  private jsonRequest<T>(endpoint: string, method: string, data?: unknown, init: RequestInit = {}): Promise<T> {
     return this.request<T>(endpoint, {
-      method: 'POST',
+      ...init,
+      method,
+      headers: { 'Content-Type': 'application/json' },
       body: data ? JSON.stringify(data) : undefined,
     });
   }
 
-  async put<T>(endpoint: string, data?: any): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'PUT',
-      body: data ? JSON.stringify(data) : undefined,
+  async get<T>(endpoint: string, params?: QueryParams): Promise<T> {
+    return this.request<T>(`${endpoint}${buildQueryString(params)}`, {
+      method: 'GET',
     });
   }
 
-  async patch<T>(endpoint: string, data?: any): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'PATCH',
-      body: data ? JSON.stringify(data) : undefined,
-    });
+  async post<T>(endpoint: string, data?: unknown): Promise<T> {
+    return this.jsonRequest<T>(endpoint, 'POST', data);
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    const authHeaders = authService.getAuthHeader();
-    const headers = {
-      'Content-Type': 'application/json',
-      ...authHeaders,
-    };
+  // Outlives the page, for last-moment calls from `pagehide`; the response is usually never read
+  async postKeepAlive<T>(endpoint: string, data?: unknown): Promise<T> {
+    return this.jsonRequest<T>(endpoint, 'POST', data, { keepalive: true });
+  }
 
-    let response = await fetch(url, {
-      method: 'DELETE',
-      headers,
-    });
+  async put<T>(endpoint: string, data?: unknown): Promise<T> {
+    return this.jsonRequest<T>(endpoint, 'PUT', data);
+  }
 
-    // If unauthorized, try to refresh token
-    if (response.status === 401) {
-      const newToken = await authService.refreshAccessToken();
-      if (newToken) {
-        response = await fetch(url, {
-          method: 'DELETE',
-          headers: {
-            ...headers,
-            'Authorization': `Bearer ${newToken}`,
-          },
-        });
-      }
-    }
+  async patch<T>(endpoint: string, data?: unknown): Promise<T> {
+    return this.jsonRequest<T>(endpoint, 'PATCH', data);
+  }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-    }
+  async delete<T>(endpoint: string): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'DELETE',
+    });
+  }
 
-    // Handle empty response for DELETE requests
-    const text = await response.text();
-    if (!text) {
-      return {} as T;
-    }
-    return JSON.parse(text) as T;
+  // Multipart form post; the browser sets the Content-Type boundary itself
+  async postForm<T>(endpoint: string, formData: FormData): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'POST',
+      body: formData,
+    }, UPLOAD_TIMEOUT_MS);
   }
 
   // File upload method
-  async uploadFile<T>(endpoint: string, file: File, additionalData?: Record<string, any>): Promise<T> {
+  async uploadFile<T>(endpoint: string, file: File, additionalData?: Record<string, FormValue>): Promise<T> {
     const formData = new FormData();
     formData.append('file', file);
 
@@ -141,23 +160,11 @@ class ApiClient {
       });
     }
 
-    const authHeaders = authService.getAuthHeader();
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      method: 'POST',
-      headers: authHeaders,
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-    }
-
-    return response.json();
+    return this.postForm<T>(endpoint, formData);
   }
 
   // Multiple file upload
-  async uploadFiles<T>(endpoint: string, files: File[], additionalData?: Record<string, any>): Promise<T> {
+  async uploadFiles<T>(endpoint: string, files: File[], additionalData?: Record<string, FormValue>): Promise<T> {
     const formData = new FormData();
 
     files.forEach((file, index) => {
@@ -170,33 +177,20 @@ class ApiClient {
       });
     }
 
-    const authHeaders = authService.getAuthHeader();
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      method: 'POST',
-      headers: authHeaders,
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-    }
-
-    return response.json();
+    return this.postForm<T>(endpoint, formData);
   }
 
-  // Download file
-  async downloadFile(endpoint: string, filename?: string): Promise<void> {
-    const authHeaders = authService.getAuthHeader();
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      headers: authHeaders,
+  // Fetch a binary resource, e.g. for authenticated image previews
+  async getBlob(endpoint: string, params?: QueryParams): Promise<Blob> {
+    const response = await this.send(`${endpoint}${buildQueryString(params)}`, {
+      method: 'GET',
     });
+    return response.blob();
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const blob = await response.blob();
+  // Download file
+  async downloadFile(endpoint: string, filename?: string, params?: QueryParams): Promise<void> {
+    const blob = await this.getBlob(endpoint, params);
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.style.display = 'none';
@@ -209,4 +203,10 @@ class ApiClient {
   }
 }
 
-export const apiClient = new ApiClient();
\ No newline at end of file
+export const apiClient = new ApiClient();
+
+apiClient.addRequestInterceptor(authHeaderInterceptor);
+apiClient.addRequestInterceptor(correlationIdInterceptor);
+apiClient.addResponseInterceptor(refreshOnUnauthorizedInterceptor);
+apiClient.addResponseInterceptor(loggingInterceptor);
+apiClient.addResponseInterceptor(errorNormalizationInterceptor);
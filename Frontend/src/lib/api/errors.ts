@@ -0,0 +1,149 @@
+import { ApiErrorResponse, ValidationError } from '@/types/shared';
+
+interface ApiErrorOptions {
+  status: number;
+  code?: string;
+  details?: string;
+  validationErrors?: ValidationError[];
+  claimedBy?: string;
+}
+
+export class ApiError extends Error {
+  name = 'ApiError';
+  /** HTTP status, or 0 when no response was received. */
+  readonly status: number;
+  readonly code?: string;
+  readonly details?: string;
+  readonly validationErrors: ValidationError[];
+
+  constructor(message: string, { status, code, details, validationErrors = [] }: ApiErrorOptions) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.details = details;
+    this.validationErrors = validationErrors;
+  }
+
+  /**
+   * Build the matching error subclass from a failed response. The body is
+   * read defensively since not every error response carries JSON.
+   */
+  static async fromResponse(response: Response, fallbackMessage?: string): Promise<ApiError> {
+    const body: Partial<ApiErrorResponse> = await response.json().catch(() => ({}));
+    const validationErrors = [
+      ...(body.validationErrors ?? []),
+      ...Object.entries(body.errors ?? {}).flatMap(([field, messages]) =>
+        messages.map((message) => ({ field, message }))
+      ),
+    ];
+
+    const message = body.error
+      || body.title
+      || validationErrors[0]?.message
+      || fallbackMessage
+      || `HTTP error! status: ${response.status}`;
+
+    return createApiError(message, {
+      status: response.status,
+      code: body.code,
+      details: body.details,
+      validationErrors,
+      claimedBy: body.claimedBy,
+    });
+  }
+}
+
+export class ValidationApiError extends ApiError {
+  name = 'ValidationApiError';
+
+  /**
+   * Validation messages keyed by camelCase field name, so they line up with
+   * form state keys (`DateOfBirth` → `dateOfBirth`). First message wins.
+   */
+  get fieldErrors(): Record<string, string> {
+    return this.validationErrors.reduce<Record<string, string>>((acc, { field, message }) => {
+      const key = field.charAt(0).toLowerCase() + field.slice(1);
+      if (!acc[key]) {
+        acc[key] = message;
+      }
+      return acc;
+    }, {});
+  }
+}
+
+export class AuthError extends ApiError {
+  name = 'AuthError';
+}
+
+export class ForbiddenError extends AuthError {
+  name = 'ForbiddenError';
+}
+
+export class NotFoundError extends ApiError {
+  name = 'NotFoundError';
+}
+
+export class ConflictError extends ApiError {
+  name = 'ConflictError';
+}
+
+/** The server refused a claim or decision because the caller does not hold the case. */
+export class ClaimConflictError extends ConflictError {
+  name = 'ClaimConflictError';
+  /** Officer holding the case; absent when nobody does and it must be claimed first. */
+  readonly claimedBy?: string;
+
+  constructor(claimedBy?: string) {
+    super(claimedBy
+      ? 'Another officer is already reviewing this case.'
+      : 'Claim this case before making a decision.', { status: 409 });
+    this.claimedBy = claimedBy;
+  }
+}
+
+/** The server refused a claim or decision because the case no longer awaits review. */
+export class AlreadyDecidedError extends ConflictError {
+  name = 'AlreadyDecidedError';
+}
+
+export class ServerError extends ApiError {
+  name = 'ServerError';
+}
+
+export class NetworkError extends ApiError {
+  name = 'NetworkError';
+
+  constructor(message = 'Unable to reach the server. Check your connection and try again.') {
+    super(message, { status: 0 });
+  }
+}
+
+export class TimeoutError extends ApiError {
+  name = 'TimeoutError';
+
+  constructor(timeoutMs: number) {
+    super(`The request timed out after ${Math.round(timeoutMs / 1000)}s`, { status: 0 });
+  }
+}
+
+export function createApiError(message: string, options: ApiErrorOptions): ApiError {
+  switch (options.status) {
+    case 400:
+    case 422:
+      return new ValidationApiError(message, options);
+    case 401:
+      return new AuthError(message, options);
+    case 403:
+      return new ForbiddenError(message, options);
+    case 404:
+      return new NotFoundError(message, options);
+    case 409:
+      if (options.code === 'ClaimConflict') return new ClaimConflictError(options.claimedBy);
+      if (options.code === 'AlreadyDecided') return new AlreadyDecidedError(message, options);
+      return new ConflictError(message, options);
+    default:
+      return options.status >= 500
+        ? new ServerError(message, options)
+        : new ApiError(message, options);
+  }
+}
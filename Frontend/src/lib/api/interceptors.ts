@@ -0,0 +1,86 @@
+import { authService } from '@/lib/auth/auth-service';
+import { ApiError } from './errors';
+
+export interface ApiRequest {
+  url: string;
+  init: RequestInit & { headers: Headers };
+  /** Number of times this request has been re-sent by a response interceptor. */
+  retryCount: number;
+  startedAt: number;
+}
+
+export interface ResponseContext {
+  request: ApiRequest;
+  /**
+   * Re-send the request through the request interceptors. The new response
+   * continues down the remaining response interceptors in place of this one.
+   */
+  retry: () => Promise<Response>;
+}
+
+export type RequestInterceptor = (request: ApiRequest) => ApiRequest | Promise<ApiRequest>;
+export type ResponseInterceptor = (response: Response, context: ResponseContext) => Response | Promise<Response>;
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+
+const generateCorrelationId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 11)}`;
+};
+
+// Request interceptors
+
+// Waits for any in-flight or due token refresh before the header is attached
+export const authHeaderInterceptor: RequestInterceptor = async (request) => {
+  const token = await authService.getValidToken();
+  if (token) {
+    request.init.headers.set('Authorization', `Bearer ${token}`);
+  }
+  return request;
+};
+
+// Keeps the same ID across retries so the backend logs can be stitched together
+export const correlationIdInterceptor: RequestInterceptor = (request) => {
+  if (!request.init.headers.has(CORRELATION_ID_HEADER)) {
+    request.init.headers.set(CORRELATION_ID_HEADER, generateCorrelationId());
+  }
+  return request;
+};
+
+// Response interceptors
+
+export const refreshOnUnauthorizedInterceptor: ResponseInterceptor = async (response, { request, retry }) => {
+  if (response.status !== 401 || request.retryCount > 0) {
+    return response;
+  }
+
+  // Another request may have rotated the token while this one was in flight
+  const sentHeader = request.init.headers.get('Authorization');
+  const currentHeader = authService.getAuthHeader()['Authorization'];
+  if (currentHeader && currentHeader !== sentHeader) {
+    return retry();
+  }
+
+  const newToken = await authService.refreshAccessToken();
+  return newToken ? retry() : response;
+};
+
+export const loggingInterceptor: ResponseInterceptor = (response, { request }) => {
+  if (process.env.NODE_ENV !== 'production') {
+    const method = request.init.method || 'GET';
+    const duration = Date.now() - request.startedAt;
+    const correlationId = request.init.headers.get(CORRELATION_ID_HEADER);
+    console.debug(`[api] ${method} ${request.url} → ${response.status} (${duration}ms) [${correlationId}]`);
+  }
+  return response;
+};
+
+export const errorNormalizationInterceptor: ResponseInterceptor = async (response) => {
+  if (response.ok) {
+    return response;
+  }
+
+  throw await ApiError.fromResponse(response);
+};
@@ -0,0 +1,42 @@
+export type QueryPrimitive = string | number | boolean | Date;
+export type QueryValue = QueryPrimitive | QueryPrimitive[] | null | undefined;
+export type QueryParams = Record<string, QueryValue>;
+
+const serializeValue = (value: QueryPrimitive): string => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  return String(value);
+};
+
+const isEmpty = (value: QueryPrimitive | null | undefined): value is null | undefined =>
+  value === undefined || value === null || value === '' || (value instanceof Date && isNaN(value.getTime()));
+
+/**
+ * Serialize query parameters the way the ASP.NET model binder expects them.
+ * Arrays are sent as repeated keys (`status=Pending&status=Approved`), dates as
+ * ISO 8601 and booleans as `true`/`false`. Empty values are omitted entirely.
+ * Returns the query string including the leading `?`, or an empty string.
+ */
+export function buildQueryString(params?: QueryParams): string {
+  if (!params) {
+    return '';
+  }
+
+  const searchParams = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((item) => {
+      if (!isEmpty(item)) {
+        searchParams.append(key, serializeValue(item));
+      }
+    });
+  });
+
+  const query = searchParams.toString();
+  return query ? `?${query}` : '';
+}
@@ -1,5 +1,4 @@
 import { apiClient } from './api-client';
-import { authService } from '@/lib/auth/auth-service';
 import {
   VerificationDto,
   CreateVerificationRequest,
@@ -8,9 +7,15 @@ import {
   VerificationListResponse,
   WorkflowStatsDto,
   UpdateStageRequest,
-  AssignOfficerRequest
+  AssignOfficerRequest,
+  DecisionReasonCode,
+  RequestResubmissionRequest,
+  ResubmitDocumentsRequest,
+  PaginatedResponse
 } from '@/types/shared';
 
+const DEFAULT_PAGE_SIZE = 20;
+
 class VerificationService {
   async createVerification(request: CreateVerificationRequest): Promise<VerificationDto> {
     const formData = new FormData();
@@ -29,18 +34,7 @@ class VerificationService {
       formData.append('IdDocumentBack', request.idDocumentBack);
     }
 
-    const response = await fetch(`${apiClient['baseUrl']}/verification`, {
-      method: 'POST',
-      headers: authService.getAuthHeader(),
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-    }
-
-    return response.json();
+    return apiClient.postForm<VerificationDto>('/verification', formData);
   }
 
   async getVerification(id: string): Promise<VerificationDto> {
@@ -50,27 +44,27 @@ class VerificationService {
   async getMyVerifications(request: VerificationListRequest = {}): Promise<VerificationListResponse> {
     const params = {
       page: request.page || 1,
-      pageSize: request.pageSize || 20,
+      pageSize: request.pageSize || DEFAULT_PAGE_SIZE,
+      status: request.status,
+      documentType: request.documentType,
+      priority: request.priority,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      searchTerm: request.searchTerm,
     };
 
-    const response = await apiClient.get<VerificationDto[]>('/verification/my-verifications', params);
+    const response = await apiClient.get<PaginatedResponse<VerificationDto> | VerificationDto[]>(
+      '/verification/my-verifications',
+      params
+    );
 
-    // Transform response to match expected format
-    return {
-      verifications: response,
-      totalCount: response.length, // This would ideally come from the API
-      currentPage: request.page || 1,
-      pageSize: request.pageSize || 20,
-      totalPages: Math.ceil(response.length / (request.pageSize || 20)),
-      hasNextPage: false,
-      hasPreviousPage: false,
-    };
+    return this.toListResponse(response, params.page, params.pageSize);
   }
 
   async getAllVerifications(request: VerificationListRequest = {}): Promise<VerificationListResponse> {
     const params = {
       page: request.page || 1,
-      pageSize: request.pageSize || 20,
+      pageSize: request.pageSize || DEFAULT_PAGE_SIZE,
       status: request.status,
       documentType: request.documentType,
       priority: request.priority,
@@ -79,27 +73,41 @@ class VerificationService {
       searchTerm: request.searchTerm,
     };
 
-    const response = await apiClient.get<VerificationDto[]>('/verification', params);
+    const response = await apiClient.get<PaginatedResponse<VerificationDto> | VerificationDto[]>('/verification', params);
 
-    return {
-      verifications: response,
-      totalCount: response.length,
-      currentPage: request.page || 1,
-      pageSize: request.pageSize || 20,
-      totalPages: Math.ceil(response.length / (request.pageSize || 20)),
-      hasNextPage: false,
-      hasPreviousPage: false,
-    };
+    return this.toListResponse(response, params.page, params.pageSize);
   }
 
   async updateVerificationStatus(id: string, request: UpdateStatusRequest): Promise<VerificationDto> {
     return apiClient.put<VerificationDto>(`/verification/${id}/status`, request);
   }
 
+  async getReasonCodes(): Promise<DecisionReasonCode[]> {
+    return apiClient.get<DecisionReasonCode[]>('/verification/reason-codes');
+  }
+
+  async resubmitDocuments(id: string, request: ResubmitDocumentsRequest): Promise<VerificationDto> {
+    const formData = new FormData();
+    if (request.idDocument) formData.append('IdDocument', request.idDocument);
+    if (request.idDocumentBack) formData.append('IdDocumentBack', request.idDocumentBack);
+    if (request.selfieImage) formData.append('SelfieImage', request.selfieImage);
+
+    return apiClient.postForm<VerificationDto>(`/verification/${id}/resubmit`, formData);
+  }
+
   async deleteVerification(id: string): Promise<void> {
     return apiClient.delete<void>(`/verification/${id}`);
   }
 
+  async getDocumentBlob(verificationId: string, documentId: string): Promise<Blob> {
+    return apiClient.getBlob(`/verification/${verificationId}/document/${documentId}`);
+  }
+
+  // Portrait crop taken from the ID document during OCR; 404 when none was extracted
+  async getPortraitBlob(verificationId: string): Promise<Blob> {
+    return apiClient.getBlob(`/verification/${verificationId}/portrait`);
+  }
+
   async downloadDocument(verificationId: string, documentId: string, filename?: string): Promise<void> {
     return apiClient.downloadFile(`/verification/${verificationId}/document/${documentId}`, filename);
   }
@@ -129,32 +137,68 @@ class VerificationService {
     return apiClient.post<VerificationDto>(`/workflow/${id}/assign`, request);
   }
 
+  // Claims the case for the current officer, or renews their claim; 409 when someone else holds it
+  async claimVerification(id: string): Promise<VerificationDto> {
+    return apiClient.post<VerificationDto>(`/workflow/${id}/claim`);
+  }
+
+  // Hands the case back to the queue; a claim held by someone else is left alone
+  async releaseVerification(id: string, options: { keepalive?: boolean } = {}): Promise<VerificationDto> {
+    return options.keepalive
+      ? apiClient.postKeepAlive<VerificationDto>(`/workflow/${id}/release`)
+      : apiClient.post<VerificationDto>(`/workflow/${id}/release`);
+  }
+
+  async requestResubmission(id: string, request: RequestResubmissionRequest): Promise<VerificationDto> {
+    return apiClient.post<VerificationDto>(`/workflow/${id}/request-resubmission`, request);
+  }
+
   async getReviewQueue(request: VerificationListRequest = {}): Promise<VerificationListResponse> {
     const params = {
       page: request.page || 1,
-      pageSize: request.pageSize || 20,
+      pageSize: request.pageSize || DEFAULT_PAGE_SIZE,
       priority: request.priority,
     };
 
-    const response = await apiClient.get<VerificationDto[]>('/workflow/queue', params);
+    const response = await apiClient.get<PaginatedResponse<VerificationDto> | VerificationDto[]>('/workflow/queue', params);
 
-    return {
-      verifications: response,
-      totalCount: response.length,
-      currentPage: request.page || 1,
-      pageSize: request.pageSize || 20,
-      totalPages: Math.ceil(response.length / (request.pageSize || 20)),
-      hasNextPage: false,
-      hasPreviousPage: false,
-    };
+    return this.toListResponse(response, params.page, params.pageSize);
   }
 
   async getWorkflowStats(): Promise<WorkflowStatsDto> {
     return apiClient.get<WorkflowStatsDto>('/workflow/stats');
   }
 
-  async deleteVerification(id: string): Promise<void> {
-    await apiClient.delete(`/verification/${id}`);
+  // Normalize a list endpoint response. The list and queue endpoints return the
+  // paginated envelope; an older API answering with a bare array of just the
+  // requested page gets inferred totals: a full page means there may be another one.
+  private toListResponse(
+    response: PaginatedResponse<VerificationDto> | VerificationDto[],
+    page: number,
+    pageSize: number
+  ): VerificationListResponse {
+    if (!Array.isArray(response)) {
+      return {
+        verifications: response.items,
+        totalCount: response.totalCount,
+        currentPage: response.currentPage,
+        pageSize: response.pageSize,
+        totalPages: response.totalPages,
+        hasNextPage: response.hasNextPage,
+        hasPreviousPage: response.hasPreviousPage,
+      };
+    }
+
+    const hasNextPage = response.length >= pageSize;
+    return {
+      verifications: response,
+      totalCount: (page - 1) * pageSize + response.length,
+      currentPage: page,
+      pageSize,
+      totalPages: hasNextPage ? page + 1 : page,
+      hasNextPage,
+      hasPreviousPage: page > 1,
+    };
   }
 
   // Helper method to get verification status color
@@ -168,6 +212,8 @@ class VerificationService {
         return 'text-blue-600 bg-blue-100';
       case 'ReviewNeeded':
         return 'text-yellow-600 bg-yellow-100';
+      case 'ActionRequired':
+        return 'text-orange-600 bg-orange-100';
       case 'Pending':
         return 'text-gray-600 bg-gray-100';
       default:
@@ -186,6 +232,8 @@ class VerificationService {
         return '⏳';
       case 'ReviewNeeded':
         return '⚠';
+      case 'ActionRequired':
+        return '↻';
       case 'Pending':
         return '📋';
       default:
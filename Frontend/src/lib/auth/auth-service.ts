@@ -1,55 +1,120 @@
-import { LoginRequest, LoginResponse, User, RefreshTokenRequest, RegisterRequest } from '@/types/shared';
+import { LoginRequest, LoginResponse, User, RegisterRequest } from '@/types/shared';
+import { ApiError, AuthError, NetworkError } from '@/lib/api/errors';
+import {
+  TokenStorage,
+  TokenStorageKind,
+  createTokenStorage,
+  loadTokenStorage,
+  resolveTokenStorageKind,
+} from './token-storage';
+import {
+  ADMIN_ROLE,
+  VERIFICATION_OFFICER_ROLE,
+  SESSION_HINT_COOKIE,
+  encodeSessionHint,
+} from './route-access';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
+// How long before `exp` an access token is proactively refreshed
+const TOKEN_REFRESH_WINDOW_SECONDS = Number(process.env.NEXT_PUBLIC_TOKEN_REFRESH_WINDOW_SECONDS) || 60;
+
+const SESSION_CHANNEL_NAME = 'docverify-auth';
+// Web Lock held while a tab rotates the refresh token all tabs share
+const REFRESH_LOCK_NAME = 'docverify-auth-refresh';
+// Shared by all tabs so the absolute session lifetime cannot be reset by opening a new one
+const SESSION_STARTED_KEY = 'session_started_at';
+// Persistent strategies keep the route-guard cookie across browser restarts too
+const SESSION_HINT_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+interface TokenPayload {
+  exp?: number;
+  sub?: string;
+  // The API writes one `role` claim per role: a string for one, an array for several
+  role?: string | string[];
+  roles?: string[];
+}
+
+export type SessionEventType = 'login' | 'refresh' | 'logout';
+
+export interface SessionChangeEvent {
+  type: SessionEventType;
+  /** True when the change happened in another tab. */
+  remote: boolean;
+  rolesChanged: boolean;
+}
+
+type SessionMessage =
+  | { type: 'login' | 'refresh'; token: string; refreshToken: string | null; storage: TokenStorageKind }
+  | { type: 'logout' };
+
+// The refresh token itself was refused, as opposed to the request failing
+const isRefreshRejected = (error: unknown) =>
+  error instanceof AuthError || (error instanceof ApiError && error.status === 400);
 
 class AuthService {
   private token: string | null = null;
   private refreshToken: string | null = null;
+  private refreshPromise: Promise<string | null> | null = null;
+  private sessionChannel: BroadcastChannel | null = null;
+  private sessionHandlers: ((event: SessionChangeEvent) => void)[] = [];
+  private storage: TokenStorage;
+  private sessionRestoreAttempted = false;
 
   constructor() {
-    // Initialize tokens from localStorage
+    this.storage = loadTokenStorage();
+
+    // Initialize tokens from the configured storage
     if (typeof window !== 'undefined') {
-      this.token = localStorage.getItem('auth_token');
-      this.refreshToken = localStorage.getItem('refresh_token');
+      this.token = this.storage.getAccessToken();
+      this.refreshToken = this.storage.getRefreshToken();
+      this.listenToOtherTabs();
+
+      // A server-managed session without an access token is restored lazily
+      if (this.token || !this.storage.serverManagedRefresh) {
+        this.syncSessionHint();
+      }
     }
   }
 
   async register(payload: RegisterRequest): Promise<LoginResponse> {
-    const response = await fetch(`${API_BASE_URL}/auth/register`, {
+    const response = await this.send(`${API_BASE_URL}/auth/register`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...this.refreshTransportHeaders() },
       body: JSON.stringify(payload),
+      credentials: this.credentialsMode(),
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || 'Registration failed');
+      throw await ApiError.fromResponse(response, 'Registration failed');
     }
 
     const data: LoginResponse = await response.json();
-    this.setTokens(data.token, data.refreshToken);
+    this.useStorage(resolveTokenStorageKind());
+    this.setTokens(data.token, data.refreshToken, 'login');
     return data;
   }
 
   async login(credentials: LoginRequest): Promise<LoginResponse> {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/login`, {
+      const response = await this.send(`${API_BASE_URL}/auth/login`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...this.refreshTransportHeaders(),
         },
         body: JSON.stringify(credentials),
+        credentials: this.credentialsMode(),
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Login failed');
+        throw await ApiError.fromResponse(response, 'Login failed');
       }
 
       const data: LoginResponse = await response.json();
 
-      // Store tokens
-      this.setTokens(data.token, data.refreshToken);
+      // Store tokens where the "remember me" choice (or deployment config) says
+      this.useStorage(resolveTokenStorageKind(credentials.rememberMe));
+      this.setTokens(data.token, data.refreshToken, 'login');
 
       return data;
     } catch (error) {
@@ -61,11 +126,12 @@ class AuthService {
   async logout(): Promise<void> {
     try {
       if (this.token) {
-        await fetch(`${API_BASE_URL}/auth/logout`, {
+        await this.send(`${API_BASE_URL}/auth/logout`, {
           method: 'POST',
           headers: {
             'Authorization': `Bearer ${this.token}`,
           },
+          credentials: this.credentialsMode(),
         });
       }
     } catch (error) {
@@ -76,34 +142,91 @@ class AuthService {
     }
   }
 
-  async refreshAccessToken(): Promise<string | null> {
-    try {
-      if (!this.refreshToken) {
-        throw new Error('No refresh token available');
-      }
+  /**
+   * Rotate the access token. Concurrent callers share one in-flight refresh,
+   * since the backend invalidates a refresh token the first time it is used.
+   */
+  refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      const staleRefreshToken = this.refreshToken;
+      this.refreshPromise = this.withRefreshLock(() => this.performRefresh(staleRefreshToken)).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  // Other tabs use the same refresh token, so only one of them may rotate it at a time
+  private withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      // request() is typed as resolving to the task's promise; then() unwraps it
+      return navigator.locks.request(REFRESH_LOCK_NAME, task).then((result) => result);
+    }
+    return task();
+  }
+
+  // Tokens another tab stored after rotating `staleRefreshToken`, adopted into this one
+  private adoptRotatedTokens(staleRefreshToken: string | null): string | null {
+    const token = this.storage.getAccessToken();
+    const refreshToken = this.storage.getRefreshToken();
+    if (token && refreshToken && refreshToken !== staleRefreshToken) {
+      this.applyRemoteSession(token, refreshToken, 'refresh');
+      return token;
+    }
+    // Already delivered over the session channel
+    return this.token && this.refreshToken !== staleRefreshToken ? this.token : null;
+  }
+
+  /**
+   * Resolves null once the session is over. Network and server errors are
+   * rethrown with the tokens kept, so a blip does not sign the user out.
+   */
+  private async performRefresh(staleRefreshToken: string | null): Promise<string | null> {
+    // Another tab finished a refresh while this one waited for the lock
+    const rotated = this.adoptRotatedTokens(staleRefreshToken);
+    if (rotated) {
+      return rotated;
+    }
+
+    if (!this.refreshToken && !this.storage.serverManagedRefresh) {
+      this.clearTokens();
+      return null;
+    }
 
-      const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+    try {
+      // With server-managed refresh the cookie carries the token instead of the body
+      const response = await this.send(`${API_BASE_URL}/auth/refresh`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...this.refreshTransportHeaders(),
         },
-        body: JSON.stringify({ refreshToken: this.refreshToken }),
+        body: JSON.stringify(this.refreshToken ? { refreshToken: this.refreshToken } : {}),
+        credentials: this.credentialsMode(),
       });
 
       if (!response.ok) {
-        throw new Error('Token refresh failed');
+        throw await ApiError.fromResponse(response, 'Token refresh failed');
       }
 
       const data: LoginResponse = await response.json();
 
       // Update stored tokens
-      this.setTokens(data.token, data.refreshToken);
+      this.setTokens(data.token, data.refreshToken, 'refresh');
 
       return data.token;
     } catch (error) {
       console.error('Token refresh error:', error);
-      this.clearTokens();
-      return null;
+      if (isRefreshRejected(error)) {
+        // Without Web Locks two tabs can race; the loser adopts the winner's tokens
+        const rotatedMeanwhile = this.adoptRotatedTokens(staleRefreshToken);
+        if (rotatedMeanwhile) {
+          return rotatedMeanwhile;
+        }
+        this.clearTokens();
+        return null;
+      }
+      throw error;
     }
   }
 
@@ -114,14 +237,14 @@ class AuthService {
         return null;
       }
 
-      const response = await fetch(`${API_BASE_URL}/auth/profile`, {
+      const response = await this.send(`${API_BASE_URL}/auth/profile`, {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
       });
 
       if (!response.ok) {
-        throw new Error('Failed to get user profile');
+        throw await ApiError.fromResponse(response, 'Failed to get user profile');
       }
 
       return await response.json();
@@ -132,42 +255,85 @@ class AuthService {
   }
 
   async getValidToken(): Promise<string | null> {
+    // Queue behind a refresh that is already under way
+    if (this.refreshPromise) {
+      return this.refreshKeepingValidToken();
+    }
+
     if (!this.token) {
+      // The access token is never persisted with server-managed refresh, so
+      // restore the session from the refresh cookie once per page load
+      if (this.storage.serverManagedRefresh && !this.sessionRestoreAttempted) {
+        this.sessionRestoreAttempted = true;
+        return this.refreshAccessToken();
+      }
       return null;
     }
 
-    // Check if token is expired (simple check)
-    try {
-      const payload = JSON.parse(atob(this.token.split('.')[1]));
-      const currentTime = Date.now() / 1000;
+    const payload = this.decodeToken();
+    if (!payload) {
+      return null;
+    }
 
-      if (payload.exp < currentTime) {
-        // Token expired, try to refresh
-        return await this.refreshAccessToken();
-      }
+    // Refresh proactively so requests never go out with a token about to expire
+    const currentTime = Date.now() / 1000;
+    if (typeof payload.exp === 'number' && payload.exp - TOKEN_REFRESH_WINDOW_SECONDS < currentTime) {
+      return this.refreshKeepingValidToken();
+    }
+
+    return this.token;
+  }
 
-      return this.token;
+  // A failed refresh leaves the current token in use until it actually expires; the next call retries
+  private async refreshKeepingValidToken(): Promise<string | null> {
+    const token = this.token;
+    const exp = this.decodeToken()?.exp;
+    try {
+      return await this.refreshAccessToken();
     } catch (error) {
-      console.error('Token validation error:', error);
+      if (token && typeof exp === 'number' && exp > Date.now() / 1000) {
+        return token;
+      }
+      throw error;
+    }
+  }
+
+  // When the user last signed in with credentials; token refreshes do not reset it
+  getSessionStartedAt(): number | null {
+    if (typeof window === 'undefined') {
       return null;
     }
+    const startedAt = Number(localStorage.getItem(SESSION_STARTED_KEY));
+    return startedAt > 0 ? startedAt : null;
   }
 
   isAuthenticated(): boolean {
     return !!this.token;
   }
 
+  // User id from the token, available without a round trip to /auth/me
+  getUserId(): string | null {
+    return this.decodeToken()?.sub ?? null;
+  }
+
   getUserRoles(): string[] {
+    const payload = this.decodeToken();
+    const roles = payload?.roles ?? payload?.role ?? [];
+    return Array.isArray(roles) ? roles : [roles];
+  }
+
+  private decodeToken(): TokenPayload | null {
     if (!this.token) {
-      return [];
+      return null;
     }
 
     try {
-      const payload = JSON.parse(atob(this.token.split('.')[1]));
-      return payload.roles || [];
+      // JWT segments are base64url encoded
+      const segment = this.token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+      return JSON.parse(atob(segment));
     } catch (error) {
       console.error('Error parsing token:', error);
-      return [];
+      return null;
     }
   }
 
@@ -177,30 +343,159 @@ class AuthService {
   }
 
   isAdmin(): boolean {
-    return this.hasRole('Admin');
+    return this.hasRole(ADMIN_ROLE);
   }
 
   isVerificationOfficer(): boolean {
-    return this.hasRole('VerificationOfficer');
+    return this.hasRole(VERIFICATION_OFFICER_ROLE);
+  }
+
+  // Subscribe to login, logout and token rotation in this tab or any other
+  onSessionChange(handler: (event: SessionChangeEvent) => void): () => void {
+    this.sessionHandlers.push(handler);
+    return () => {
+      const index = this.sessionHandlers.indexOf(handler);
+      if (index > -1) {
+        this.sessionHandlers.splice(index, 1);
+      }
+    };
+  }
+
+  // Switch strategies, dropping anything the previous one still holds
+  private useStorage(kind: TokenStorageKind): void {
+    if (this.storage.kind !== kind) {
+      this.storage.clear();
+      this.storage = createTokenStorage(kind);
+    }
+  }
+
+  private credentialsMode(): RequestCredentials {
+    return this.storage.serverManagedRefresh ? 'include' : 'same-origin';
   }
 
-  private setTokens(token: string, refreshToken: string): void {
+  // Asks the API to set the refresh token as an HTTP-only cookie and leave it out of the body
+  private refreshTransportHeaders(): Record<string, string> {
+    return this.storage.serverManagedRefresh ? { 'X-Refresh-Token-Transport': 'cookie' } : {};
+  }
+
+  private setTokens(token: string, refreshToken: string | null, type: 'login' | 'refresh'): void {
+    const previousRoles = this.getUserRoles();
+    this.storage.setTokens(token, refreshToken);
     this.token = token;
-    this.refreshToken = refreshToken;
+    this.refreshToken = this.storage.getRefreshToken();
 
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('auth_token', token);
-      localStorage.setItem('refresh_token', refreshToken);
+    if (type === 'login' && typeof window !== 'undefined') {
+      localStorage.setItem(SESSION_STARTED_KEY, String(Date.now()));
     }
+    this.syncSessionHint();
+
+    this.sessionChannel?.postMessage({
+      type,
+      token,
+      refreshToken: this.refreshToken,
+      storage: this.storage.kind,
+    } satisfies SessionMessage);
+    this.notifySessionChange(type, false, previousRoles);
   }
 
   private clearTokens(): void {
+    const wasAuthenticated = this.token !== null;
+    const previousRoles = this.getUserRoles();
     this.token = null;
     this.refreshToken = null;
+    this.storage.clear();
 
     if (typeof window !== 'undefined') {
-      localStorage.removeItem('auth_token');
-      localStorage.removeItem('refresh_token');
+      localStorage.removeItem(SESSION_STARTED_KEY);
+    }
+    this.syncSessionHint();
+
+    if (wasAuthenticated) {
+      this.sessionChannel?.postMessage({ type: 'logout' } satisfies SessionMessage);
+      this.notifySessionChange('logout', false, previousRoles);
+    }
+  }
+
+  // BroadcastChannel where available; otherwise fall back to localStorage `storage` events
+  private listenToOtherTabs(): void {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.sessionChannel = new BroadcastChannel(SESSION_CHANNEL_NAME);
+      this.sessionChannel.onmessage = (event: MessageEvent<SessionMessage>) => {
+        const message = event.data;
+        if (message.type === 'logout') {
+          this.applyRemoteSession(null, null, 'logout');
+        } else {
+          this.useStorage(message.storage);
+          this.applyRemoteSession(message.token, message.refreshToken, message.type);
+        }
+      };
+      return;
+    }
+
+    // Only localStorage raises `storage` events in other tabs
+    window.addEventListener('storage', (event) => {
+      if (event.key !== null && event.key !== 'auth_token' && event.key !== 'refresh_token') {
+        return;
+      }
+      const shared = createTokenStorage('local');
+      const token = shared.getAccessToken();
+      if (!token && this.storage.kind !== 'local') {
+        return;
+      }
+      this.useStorage('local');
+      const type: SessionEventType = !token ? 'logout' : this.token ? 'refresh' : 'login';
+      this.applyRemoteSession(token, shared.getRefreshToken(), type);
+    });
+  }
+
+  // Adopt tokens another tab already persisted, without re-broadcasting them
+  private applyRemoteSession(token: string | null, refreshToken: string | null, type: SessionEventType): void {
+    if (token === this.token && refreshToken === this.refreshToken) {
+      return;
+    }
+
+    const previousRoles = this.getUserRoles();
+    if (token) {
+      this.storage.setTokens(token, refreshToken);
+    } else {
+      this.storage.clear();
+    }
+    this.token = token;
+    this.refreshToken = this.storage.getRefreshToken();
+    this.syncSessionHint();
+    this.notifySessionChange(type, true, previousRoles);
+  }
+
+  // Mirror the roles into a cookie the route proxy can read before render
+  private syncSessionHint(): void {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    if (!this.token) {
+      document.cookie = `${SESSION_HINT_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax`;
+      return;
+    }
+
+    const persistent = this.storage.kind === 'local' || this.storage.kind === 'cookie';
+    const maxAge = persistent ? `; Max-Age=${SESSION_HINT_MAX_AGE_SECONDS}` : '';
+    document.cookie = `${SESSION_HINT_COOKIE}=${encodeSessionHint(this.getUserRoles())}; Path=/; SameSite=Lax${maxAge}`;
+  }
+
+  private notifySessionChange(type: SessionEventType, remote: boolean, previousRoles: string[]): void {
+    const roles = this.getUserRoles();
+    const rolesChanged = roles.length !== previousRoles.length
+      || roles.some((role) => !previousRoles.includes(role));
+    this.sessionHandlers.forEach((handler) => handler({ type, remote, rolesChanged }));
+  }
+
+  // fetch() only rejects when no response arrives at all
+  private async send(url: string, init?: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, init);
+    } catch (error) {
+      console.error('Network error:', error);
+      throw new NetworkError();
     }
   }
 
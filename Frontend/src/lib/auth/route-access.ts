@@ -0,0 +1,58 @@
+export const ADMIN_ROLE = 'Admin';
+export const VERIFICATION_OFFICER_ROLE = 'VerificationOfficer';
+
+export const REVIEWER_ROLES = [VERIFICATION_OFFICER_ROLE, ADMIN_ROLE];
+
+export interface RouteAccessRule {
+  /** Path prefix the rule covers, including everything below it. */
+  path: string;
+  /** Any one of these roles grants access; empty means any signed-in user. */
+  roles: string[];
+}
+
+// Most specific prefixes first; the first match wins
+export const ROUTE_ACCESS_RULES: RouteAccessRule[] = [
+  { path: '/admin', roles: [ADMIN_ROLE] },
+  { path: '/review', roles: REVIEWER_ROLES },
+  { path: '/dashboard', roles: [] },
+  { path: '/verify', roles: [] },
+];
+
+export const LOGIN_PATH = '/auth/login';
+export const FORBIDDEN_PATH = '/forbidden';
+export const RETURN_TO_PARAM = 'returnTo';
+
+/**
+ * Non-sensitive cookie mirroring the signed-in user's roles, so the proxy can
+ * gate pages before render. Tokens never leave client storage and the API
+ * still authorizes every request; this only decides what to render.
+ */
+export const SESSION_HINT_COOKIE = 'docverify_session';
+
+export function findRouteAccessRule(pathname: string): RouteAccessRule | undefined {
+  return ROUTE_ACCESS_RULES.find(
+    ({ path }) => pathname === path || pathname.startsWith(`${path}/`)
+  );
+}
+
+export function hasRequiredRole(userRoles: string[], requiredRoles: string[]): boolean {
+  return requiredRoles.length === 0 || requiredRoles.some((role) => userRoles.includes(role));
+}
+
+export function canAccessRoute(pathname: string, userRoles: string[]): boolean {
+  const rule = findRouteAccessRule(pathname);
+  return !rule || hasRequiredRole(userRoles, rule.roles);
+}
+
+export function encodeSessionHint(roles: string[]): string {
+  return encodeURIComponent(roles.join(','));
+}
+
+export function parseSessionHint(value: string): string[] {
+  return decodeURIComponent(value).split(',').filter(Boolean);
+}
+
+// Only same-origin paths are followed after sign-in
+export function safeReturnPath(value: string | null): string | null {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : null;
+}
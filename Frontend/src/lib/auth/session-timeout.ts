@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { authService } from './auth-service';
+
+const MINUTE_MS = 60 * 1000;
+const IDLE_TIMEOUT_MS = (Number(process.env.NEXT_PUBLIC_SESSION_IDLE_TIMEOUT_MINUTES) || 30) * MINUTE_MS;
+const ABSOLUTE_TIMEOUT_MS = (Number(process.env.NEXT_PUBLIC_SESSION_ABSOLUTE_TIMEOUT_MINUTES) || 12 * 60) * MINUTE_MS;
+const WARNING_MS = (Number(process.env.NEXT_PUBLIC_SESSION_WARNING_SECONDS) || 60) * 1000;
+
+// Activity is written at most this often; other tabs read it to stay alive too
+const ACTIVITY_WRITE_INTERVAL_MS = 15 * 1000;
+const LAST_ACTIVITY_KEY = 'session_last_activity';
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'wheel'] as const;
+
+export type SessionExpiryReason = 'idle' | 'absolute';
+
+export interface SessionExpiry {
+  reason: SessionExpiryReason;
+  expiresAt: number;
+}
+
+class SessionTimeoutService {
+  private lastWrite = 0;
+  private trackingStartedAt = Date.now();
+
+  // Whichever limit is reached first ends the session
+  getExpiry(): SessionExpiry {
+    const idleExpiresAt = this.getLastActivity() + IDLE_TIMEOUT_MS;
+    const absoluteExpiresAt = this.getSessionStartedAt() + ABSOLUTE_TIMEOUT_MS;
+    return absoluteExpiresAt <= idleExpiresAt
+      ? { reason: 'absolute', expiresAt: absoluteExpiresAt }
+      : { reason: 'idle', expiresAt: idleExpiresAt };
+  }
+
+  isWarningPeriod(): boolean {
+    return this.getExpiry().expiresAt - Date.now() <= WARNING_MS;
+  }
+
+  recordActivity(force = false): void {
+    const now = Date.now();
+    if (!force && now - this.lastWrite < ACTIVITY_WRITE_INTERVAL_MS) return;
+    this.lastWrite = now;
+    this.write(LAST_ACTIVITY_KEY, now);
+  }
+
+  // Attach activity listeners; returns a function that detaches them
+  startTracking(): () => void {
+    this.trackingStartedAt = Date.now();
+
+    const handleActivity = () => {
+      // Once the warning is up, only an explicit "stay signed in" extends the session
+      if (!this.isWarningPeriod()) {
+        this.recordActivity();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, handleActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, handleActivity));
+    };
+  }
+
+  // Activity recorded before the current sign-in belongs to an earlier session
+  private getLastActivity(): number {
+    return Math.max(this.read(LAST_ACTIVITY_KEY) ?? 0, this.getSessionStartedAt());
+  }
+
+  // Sessions that predate tracking start their absolute clock when tracking begins
+  private getSessionStartedAt(): number {
+    return authService.getSessionStartedAt() ?? this.trackingStartedAt;
+  }
+
+  private read(key: string): number | null {
+    if (typeof window === 'undefined') return null;
+    const value = Number(localStorage.getItem(key));
+    return value > 0 ? value : null;
+  }
+
+  private write(key: string, value: number): void {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(key, String(value));
+    }
+  }
+}
+
+export const sessionTimeoutService = new SessionTimeoutService();
+
+export interface SessionTimeoutWarning {
+  reason: SessionExpiryReason;
+  secondsRemaining: number;
+}
+
+// React hook that tracks activity, reports the warning countdown and logs out on expiry
+export function useSessionTimeout(enabled = true) {
+  const [warning, setWarning] = useState<SessionTimeoutWarning | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const stopTracking = sessionTimeoutService.startTracking();
+    let loggingOut = false;
+
+    const check = () => {
+      const { reason, expiresAt } = sessionTimeoutService.getExpiry();
+      const remaining = expiresAt - Date.now();
+
+      if (remaining <= 0) {
+        if (!loggingOut) {
+          loggingOut = true;
+          setWarning(null);
+          void authService.logout();
+        }
+        return;
+      }
+
+      setWarning(remaining <= WARNING_MS
+        ? { reason, secondsRemaining: Math.ceil(remaining / 1000) }
+        : null);
+    };
+
+    check();
+    const interval = setInterval(check, 1000);
+
+    return () => {
+      clearInterval(interval);
+      stopTracking();
+    };
+  }, [enabled]);
+
+  const staySignedIn = useCallback(async () => {
+    try {
+      const token = await authService.refreshAccessToken();
+      if (token) {
+        sessionTimeoutService.recordActivity(true);
+        setWarning(null);
+      }
+    } catch (error) {
+      // Leave the warning up so the user can try again
+      console.error('Failed to extend session:', error);
+    }
+  }, []);
+
+  const signOut = useCallback(() => authService.logout(), []);
+
+  return { warning, staySignedIn, signOut };
+}
@@ -0,0 +1,129 @@
+export type TokenStorageKind = 'memory' | 'session' | 'local' | 'cookie';
+
+export interface TokenStorage {
+  readonly kind: TokenStorageKind;
+  /**
+   * True when the refresh token lives in an HTTP-only cookie set by the API,
+   * so refresh and logout calls must send credentials instead of a token.
+   */
+  readonly serverManagedRefresh: boolean;
+  getAccessToken(): string | null;
+  getRefreshToken(): string | null;
+  setTokens(token: string, refreshToken: string | null): void;
+  clear(): void;
+}
+
+const ACCESS_TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+// Tokens survive only until the page is reloaded
+class MemoryTokenStorage implements TokenStorage {
+  readonly kind: TokenStorageKind = 'memory';
+  readonly serverManagedRefresh: boolean = false;
+  protected token: string | null = null;
+  protected refreshToken: string | null = null;
+
+  getAccessToken(): string | null {
+    return this.token;
+  }
+
+  getRefreshToken(): string | null {
+    return this.refreshToken;
+  }
+
+  setTokens(token: string, refreshToken: string | null): void {
+    this.token = token;
+    this.refreshToken = refreshToken;
+  }
+
+  clear(): void {
+    this.token = null;
+    this.refreshToken = null;
+  }
+}
+
+// The access token stays in memory; the API keeps the refresh token in an HTTP-only cookie
+class CookieTokenStorage extends MemoryTokenStorage {
+  readonly kind: TokenStorageKind = 'cookie';
+  readonly serverManagedRefresh: boolean = true;
+
+  setTokens(token: string): void {
+    this.token = token;
+  }
+}
+
+// sessionStorage (per tab, cleared when it closes) or localStorage (persistent)
+class WebTokenStorage implements TokenStorage {
+  readonly serverManagedRefresh: boolean = false;
+
+  constructor(readonly kind: 'session' | 'local') {}
+
+  private get storage(): Storage | null {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+    return this.kind === 'local' ? window.localStorage : window.sessionStorage;
+  }
+
+  getAccessToken(): string | null {
+    return this.storage?.getItem(ACCESS_TOKEN_KEY) ?? null;
+  }
+
+  getRefreshToken(): string | null {
+    return this.storage?.getItem(REFRESH_TOKEN_KEY) ?? null;
+  }
+
+  setTokens(token: string, refreshToken: string | null): void {
+    this.storage?.setItem(ACCESS_TOKEN_KEY, token);
+    if (refreshToken) {
+      this.storage?.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    } else {
+      this.storage?.removeItem(REFRESH_TOKEN_KEY);
+    }
+  }
+
+  clear(): void {
+    this.storage?.removeItem(ACCESS_TOKEN_KEY);
+    this.storage?.removeItem(REFRESH_TOKEN_KEY);
+  }
+}
+
+export function createTokenStorage(kind: TokenStorageKind): TokenStorage {
+  switch (kind) {
+    case 'memory':
+      return new MemoryTokenStorage();
+    case 'cookie':
+      return new CookieTokenStorage();
+    default:
+      return new WebTokenStorage(kind);
+  }
+}
+
+const isTokenStorageKind = (value: string | undefined): value is TokenStorageKind =>
+  value === 'memory' || value === 'session' || value === 'local' || value === 'cookie';
+
+// Deployment override; when unset the user's "remember me" choice decides
+const CONFIGURED_STORAGE = process.env.NEXT_PUBLIC_TOKEN_STORAGE;
+
+export function resolveTokenStorageKind(rememberMe?: boolean): TokenStorageKind {
+  if (isTokenStorageKind(CONFIGURED_STORAGE)) {
+    return CONFIGURED_STORAGE;
+  }
+  return rememberMe ? 'local' : 'session';
+}
+
+/**
+ * Storage to restore a session from on page load: the configured strategy,
+ * or whichever web storage already holds a token when "remember me" decides.
+ */
+export function loadTokenStorage(): TokenStorage {
+  if (isTokenStorageKind(CONFIGURED_STORAGE)) {
+    return createTokenStorage(CONFIGURED_STORAGE);
+  }
+
+  const session = createTokenStorage('session');
+  if (session.getAccessToken()) {
+    return session;
+  }
+  return createTokenStorage('local');
+}
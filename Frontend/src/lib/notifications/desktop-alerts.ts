@@ -0,0 +1,180 @@
+import { useEffect } from 'react';
+import { NotificationMessage, Priority, User, VerificationUpdateMessage } from '@/types/shared';
+import { canAccessRoute } from '@/lib/auth/route-access';
+import { webSocketService } from '@/lib/websocket/websocket-service';
+import { notificationService } from './notification-service';
+
+export interface DesktopAlertPreferences {
+  enabled: boolean;
+  /** Cases entering the review queue. */
+  queueEvents: boolean;
+  /** Status changes on cases assigned to this officer. */
+  assignedEvents: boolean;
+  /** Only cases with one of these priorities raise a desktop alert. */
+  priorities: Priority[];
+}
+
+export type DesktopAlertPermission = NotificationPermission | 'unsupported';
+
+export const ALERT_PRIORITIES: Priority[] = ['Urgent', 'High', 'Normal', 'Low'];
+
+const DEFAULT_PREFERENCES: DesktopAlertPreferences = {
+  enabled: false,
+  queueEvents: true,
+  assignedEvents: true,
+  priorities: ['Urgent', 'High', 'Normal'],
+};
+
+const PREFERENCES_KEY_PREFIX = 'desktop_alerts:';
+
+interface DesktopAlert {
+  id: string;
+  title: string;
+  body: string;
+  link?: string;
+}
+
+class DesktopAlertService {
+  getPreferences(userId: string): DesktopAlertPreferences {
+    if (typeof window === 'undefined') {
+      return DEFAULT_PREFERENCES;
+    }
+    try {
+      const stored = JSON.parse(localStorage.getItem(`${PREFERENCES_KEY_PREFIX}${userId}`) || '{}');
+      return { ...DEFAULT_PREFERENCES, ...stored };
+    } catch {
+      return DEFAULT_PREFERENCES;
+    }
+  }
+
+  setPreferences(userId: string, preferences: DesktopAlertPreferences): void {
+    localStorage.setItem(`${PREFERENCES_KEY_PREFIX}${userId}`, JSON.stringify(preferences));
+  }
+
+  getPermission(): DesktopAlertPermission {
+    if (typeof window === 'undefined' || !('Notification' in window)) {
+      return 'unsupported';
+    }
+    return Notification.permission;
+  }
+
+  // Must be called from a user gesture, e.g. ticking the opt-in checkbox
+  async requestPermission(): Promise<DesktopAlertPermission> {
+    if (this.getPermission() === 'unsupported') {
+      return 'unsupported';
+    }
+    return Notification.requestPermission();
+  }
+
+  /**
+   * Show an alert when the officer is looking elsewhere. The tag is the
+   * message id, so tabs that receive the same event collapse into one alert.
+   */
+  show(alert: DesktopAlert): void {
+    if (this.getPermission() !== 'granted') return;
+    if (document.visibilityState === 'visible' && document.hasFocus()) return;
+
+    const notification = new Notification(alert.title, { body: alert.body, tag: alert.id });
+    notification.onclick = () => {
+      window.focus();
+      if (alert.link) {
+        window.location.assign(alert.link);
+      }
+      notification.close();
+    };
+  }
+}
+
+export const desktopAlertService = new DesktopAlertService();
+
+type AlertCategory = 'queue' | 'assigned';
+
+// Every desktop alert goes through the same opt-in: the master switch, its category and its priority
+const wantsDesktopAlert = (preferences: DesktopAlertPreferences, category: AlertCategory, priority?: Priority) =>
+  preferences.enabled
+  && (category === 'queue' ? preferences.queueEvents : preferences.assignedEvents)
+  && (!priority || preferences.priorities.includes(priority));
+
+/**
+ * React hook for officers: watches the review queue and their assigned
+ * cases, records each event in the notification center and raises a desktop
+ * alert when the user's preferences allow it.
+ */
+export function useQueueAlerts(user: User | null) {
+  const isReviewer = !!user && canAccessRoute('/review', user.roles);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!isReviewer || !userId) {
+      return;
+    }
+
+    // Last status seen per case, so repeated updates only alert once
+    const lastStatus = new Map<string, string>();
+    // Last known assignee per case, to file server notifications under the right category
+    const assignees = new Map<string, string>();
+
+    const release = webSocketService.acquire();
+    const leaveQueue = webSocketService.joinReviewQueue();
+
+    const unsubscribeUpdates = webSocketService.onVerificationUpdate((message: VerificationUpdateMessage) => {
+      const { verificationId, status, priority, assignedTo } = message.data;
+      if (assignedTo !== undefined) {
+        assignees.set(verificationId, assignedTo);
+      }
+      // In-flight progress steps are not queue events
+      if (message.data.progress !== undefined || lastStatus.get(verificationId) === status) return;
+      lastStatus.set(verificationId, status);
+
+      const preferences = desktopAlertService.getPreferences(userId);
+      const enteredQueue = status === 'ReviewNeeded';
+      const assignedChange = !enteredQueue && assignedTo === userId;
+      if (!enteredQueue && !assignedChange) return;
+
+      const title = enteredQueue ? 'New case in review queue' : 'Assigned case updated';
+      const body = enteredQueue
+        ? `${priority ?? 'Normal'} priority verification is waiting for review`
+        : `A case assigned to you is now ${status}`;
+
+      const notification: NotificationMessage = {
+        type: 'notification',
+        id: message.id,
+        timestamp: message.timestamp,
+        data: {
+          title,
+          message: body,
+          severity: priority === 'Urgent' || priority === 'High' ? 'warning' : 'info',
+          verificationId,
+          priority,
+        },
+      };
+      notificationService.add(notification);
+
+      if (wantsDesktopAlert(preferences, enteredQueue ? 'queue' : 'assigned', priority)) {
+        desktopAlertService.show({ id: message.id, title, body, link: `/review/${verificationId}` });
+      }
+    });
+
+    // Server-sent notifications about a case are alerts too; they reach the center on their own.
+    // One about a case assigned to this officer counts as an assigned event, any other as a queue event
+    const unsubscribeNotifications = webSocketService.onNotification((message) => {
+      const preferences = desktopAlertService.getPreferences(userId);
+      const { title, message: body, verificationId, priority } = message.data;
+      if (!verificationId) return;
+
+      const category: AlertCategory = assignees.get(verificationId) === userId ? 'assigned' : 'queue';
+      if (!wantsDesktopAlert(preferences, category, priority)) return;
+
+      desktopAlertService.show({ id: message.id, title, body, link: `/review/${verificationId}` });
+    });
+
+    return () => {
+      unsubscribeNotifications();
+      unsubscribeUpdates();
+      leaveQueue();
+      release();
+    };
+  }, [isReviewer, userId]);
+
+  return isReviewer;
+}
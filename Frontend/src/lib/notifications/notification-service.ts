@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { NotificationMessage } from '@/types/shared';
+import { webSocketService } from '@/lib/websocket/websocket-service';
+
+export type NotificationSeverity = NotificationMessage['data']['severity'];
+
+export interface StoredNotification {
+  id: string;
+  title: string;
+  message: string;
+  severity: NotificationSeverity;
+  verificationId?: string;
+  receivedAt: string;
+  read: boolean;
+}
+
+const STORAGE_KEY_PREFIX = 'notifications:';
+// Oldest notifications are dropped beyond this
+const MAX_STORED_NOTIFICATIONS = 200;
+
+class NotificationService {
+  private notifications: StoredNotification[] = [];
+  // Per-user key so a shared browser never shows one account's history to another
+  private storageKey: string | null = null;
+  private handlers: ((notifications: StoredNotification[]) => void)[] = [];
+  private storageListenerAttached = false;
+
+  // Switch to the given user's history, or clear it from memory on sign-out
+  load(userId: string | null): void {
+    const storageKey = userId ? `${STORAGE_KEY_PREFIX}${userId}` : null;
+    if (storageKey === this.storageKey) return;
+
+    this.storageKey = storageKey;
+    this.notifications = this.read();
+    this.listenToOtherTabs();
+    this.notify();
+  }
+
+  add(message: NotificationMessage): void {
+    if (!this.storageKey) return;
+
+    // Every open tab receives the same message; re-read so only one copy is kept
+    this.notifications = this.read();
+    if (this.notifications.some((n) => n.id === message.id)) return;
+
+    this.notifications = [
+      {
+        id: message.id,
+        title: message.data.title,
+        message: message.data.message,
+        severity: message.data.severity,
+        verificationId: message.data.verificationId,
+        receivedAt: message.timestamp || new Date().toISOString(),
+        read: false,
+      },
+      ...this.notifications,
+    ].slice(0, MAX_STORED_NOTIFICATIONS);
+    this.save();
+  }
+
+  markAsRead(id: string): void {
+    this.update((n) => (n.id === id && !n.read ? { ...n, read: true } : n));
+  }
+
+  markAllAsRead(): void {
+    this.update((n) => (n.read ? n : { ...n, read: true }));
+  }
+
+  remove(id: string): void {
+    this.notifications = this.notifications.filter((n) => n.id !== id);
+    this.save();
+  }
+
+  clear(): void {
+    this.notifications = [];
+    this.save();
+  }
+
+  getNotifications(): StoredNotification[] {
+    return this.notifications;
+  }
+
+  getUnreadCount(): number {
+    return this.notifications.filter((n) => !n.read).length;
+  }
+
+  subscribe(handler: (notifications: StoredNotification[]) => void): () => void {
+    this.handlers.push(handler);
+    return () => {
+      const index = this.handlers.indexOf(handler);
+      if (index > -1) {
+        this.handlers.splice(index, 1);
+      }
+    };
+  }
+
+  private update(change: (notification: StoredNotification) => StoredNotification): void {
+    this.notifications = this.notifications.map(change);
+    this.save();
+  }
+
+  private read(): StoredNotification[] {
+    if (!this.storageKey || typeof window === 'undefined') {
+      return [];
+    }
+    try {
+      return JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private save(): void {
+    if (this.storageKey && typeof window !== 'undefined') {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.notifications));
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.handlers.forEach((handler) => handler(this.notifications));
+  }
+
+  // Reads, deletions and new arrivals in one tab show up in the others
+  private listenToOtherTabs(): void {
+    if (this.storageListenerAttached || typeof window === 'undefined') return;
+    this.storageListenerAttached = true;
+
+    window.addEventListener('storage', (event) => {
+      if (event.key === this.storageKey) {
+        this.notifications = this.read();
+        this.notify();
+      }
+    });
+  }
+}
+
+export const notificationService = new NotificationService();
+
+// React hook that records live notifications for the signed-in user and exposes their history
+export function useNotificationCenter(userId: string | null) {
+  const [notifications, setNotifications] = useState<StoredNotification[]>(notificationService.getNotifications());
+
+  useEffect(() => {
+    const unsubscribe = notificationService.subscribe(setNotifications);
+    notificationService.load(userId);
+    return unsubscribe;
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    const release = webSocketService.acquire();
+    const unsubscribe = webSocketService.onNotification((message) => notificationService.add(message));
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, [userId]);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => !n.read).length,
+    markAsRead: (id: string) => notificationService.markAsRead(id),
+    markAllAsRead: () => notificationService.markAllAsRead(),
+    remove: (id: string) => notificationService.remove(id),
+    clear: () => notificationService.clear(),
+  };
+}
+
+// Prefix the tab title with the unread count, e.g. "(3) DocVerify"
+export function useUnreadTitle(unreadCount: number) {
+  useEffect(() => {
+    const baseTitle = document.title.replace(/^\(\d+\+?\) /, '');
+    document.title = unreadCount > 0 ? `(${unreadCount > 99 ? '99+' : unreadCount}) ${baseTitle}` : baseTitle;
+  }, [unreadCount]);
+}
@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback } from 'react';
+import { VerificationDto } from '@/types/shared';
+import { verificationService } from '@/lib/api/verification-service';
+import { authService } from '@/lib/auth/auth-service';
+
+// A claim nobody has renewed for this long is treated as abandoned; mirrors the server's timeout
+export const CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+// Renew well inside the timeout so one missed beat does not lose the case
+const CLAIM_RENEW_INTERVAL_MS = 5 * 60 * 1000;
+// How often a case held by someone else is re-checked for release or expiry
+const CLAIM_REFRESH_INTERVAL_MS = 30000;
+
+export type ClaimState = 'unclaimed' | 'mine' | 'other';
+
+export interface ClaimInfo {
+  state: ClaimState;
+  /** Officer id holding the claim, when it is live. */
+  claimedBy?: string;
+  claimedAt?: string;
+  expiresAt?: string;
+}
+
+type ClaimSnapshot = Pick<VerificationDto, 'id' | 'assignedTo' | 'claimedAt'>;
+
+/**
+ * Work out who holds a case, for display. The server decides who may claim
+ * or decide it; a claim left unrenewed past the timeout lapses there too.
+ */
+export function getClaimInfo(verification: ClaimSnapshot, userId: string | null, now = Date.now()): ClaimInfo {
+  const { assignedTo, claimedAt } = verification;
+  if (!assignedTo || !claimedAt) {
+    return { state: 'unclaimed' };
+  }
+
+  const expiresAt = new Date(claimedAt).getTime() + CLAIM_TIMEOUT_MS;
+  if (expiresAt <= now) {
+    return { state: 'unclaimed' };
+  }
+
+  return {
+    state: assignedTo === userId ? 'mine' : 'other',
+    claimedBy: assignedTo,
+    claimedAt,
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+}
+
+// Officer ids are opaque; a short form is enough to tell colleagues apart
+export function formatClaimant(info: ClaimInfo): string {
+  if (info.state === 'mine') return 'you';
+  return info.claimedBy ? `officer ${info.claimedBy.slice(0, 8)}` : 'another officer';
+}
+
+class ReviewClaimService {
+  // Cases claimed from this tab, released together when it closes
+  private held = new Set<string>();
+  private unloadListenerAttached = false;
+
+  // The server assigns the case only if nobody else holds it, and answers 409 otherwise
+  async claim(verificationId: string): Promise<VerificationDto> {
+    this.requireUserId();
+    try {
+      const claimed = await verificationService.claimVerification(verificationId);
+      this.hold(verificationId);
+      return claimed;
+    } catch (error) {
+      this.held.delete(verificationId);
+      throw error;
+    }
+  }
+
+  // Claiming a case we already hold restarts the timeout
+  async renew(verificationId: string): Promise<VerificationDto> {
+    return this.claim(verificationId);
+  }
+
+  async release(verificationId: string): Promise<void> {
+    if (!this.held.delete(verificationId)) return;
+    await verificationService.releaseVerification(verificationId);
+  }
+
+  // After a decision the assignment stays as the record of who made it
+  forget(verificationId: string): void {
+    this.held.delete(verificationId);
+  }
+
+  isHeld(verificationId: string): boolean {
+    return this.held.has(verificationId);
+  }
+
+  // Take over a claim made earlier, e.g. before a reload
+  hold(verificationId: string): void {
+    this.held.add(verificationId);
+    this.releaseOnUnload();
+  }
+
+  private requireUserId(): string {
+    const userId = authService.getUserId();
+    if (!userId) {
+      throw new Error('Sign in to claim cases');
+    }
+    return userId;
+  }
+
+  // Closing the tab hands its cases back; the timeout covers crashes and lost connections
+  private releaseOnUnload(): void {
+    if (this.unloadListenerAttached || typeof window === 'undefined') return;
+    this.unloadListenerAttached = true;
+
+    window.addEventListener('pagehide', () => {
+      this.held.forEach((verificationId) => {
+        verificationService.releaseVerification(verificationId, { keepalive: true }).catch(() => {
+          // The page is going away; an unreleased claim simply times out
+        });
+      });
+      this.held.clear();
+    });
+  }
+}
+
+export const reviewClaimService = new ReviewClaimService();
+
+/**
+ * React hook for the review screen: tracks who holds the case, keeps our own
+ * claim alive while the tab is visible and releases it when the screen closes.
+ */
+export function useReviewClaim(verification: VerificationDto | null) {
+  const [snapshot, setSnapshot] = useState<ClaimSnapshot | null>(verification);
+  const [now, setNow] = useState(() => Date.now());
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [claimError, setClaimError] = useState<string | null>(null);
+
+  const verificationId = verification?.id;
+  const userId = authService.getUserId();
+
+  useEffect(() => {
+    setSnapshot(verification);
+  }, [verification]);
+
+  const info = snapshot ? getClaimInfo(snapshot, userId, now) : { state: 'unclaimed' as ClaimState };
+  const isMine = info.state === 'mine';
+
+  const refresh = useCallback(async () => {
+    if (!verificationId) return;
+    try {
+      setSnapshot(await verificationService.getVerification(verificationId));
+    } catch {
+      // Keep the last known holder; the next refresh will try again
+    }
+    setNow(Date.now());
+  }, [verificationId]);
+
+  const claim = useCallback(async () => {
+    if (!verificationId) return;
+    setIsClaiming(true);
+    setClaimError(null);
+    try {
+      setSnapshot(await reviewClaimService.claim(verificationId));
+    } catch (err) {
+      setClaimError(err instanceof Error ? err.message : 'Failed to claim case');
+      await refresh();
+    } finally {
+      setIsClaiming(false);
+      setNow(Date.now());
+    }
+  }, [verificationId, refresh]);
+
+  const release = useCallback(async () => {
+    if (!verificationId) return;
+    try {
+      await reviewClaimService.release(verificationId);
+    } catch {
+      // Left to time out
+    }
+    await refresh();
+  }, [verificationId, refresh]);
+
+  // A claim we already hold, e.g. made from the queue, is ours to keep alive
+  useEffect(() => {
+    if (verificationId && isMine) {
+      reviewClaimService.hold(verificationId);
+    }
+  }, [verificationId, isMine]);
+
+  useEffect(() => {
+    if (!verificationId) return;
+
+    const interval = setInterval(() => {
+      if (!isMine) {
+        refresh();
+        return;
+      }
+      // A hidden tab stops renewing, so a forgotten case returns to the queue on its own
+      if (document.visibilityState !== 'visible') return;
+      reviewClaimService.renew(verificationId)
+        .then((renewed) => setSnapshot(renewed))
+        .catch((err) => {
+          setClaimError(err instanceof Error ? err.message : 'Lost the claim on this case');
+          refresh();
+        });
+    }, isMine ? CLAIM_RENEW_INTERVAL_MS : CLAIM_REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [verificationId, isMine, refresh]);
+
+  // Leaving the review screen hands the case back
+  useEffect(() => {
+    if (!verificationId) return;
+    return () => {
+      if (reviewClaimService.isHeld(verificationId)) {
+        reviewClaimService.release(verificationId).catch(() => {
+          // Left to time out
+        });
+      }
+    };
+  }, [verificationId]);
+
+  return {
+    claim: info,
+    isMine,
+    isClaiming,
+    claimError,
+    claimCase: claim,
+    releaseCase: release,
+  };
+}
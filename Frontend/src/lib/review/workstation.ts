@@ -0,0 +1,194 @@
+import { useState, useEffect, useRef } from 'react';
+import { VerificationDto } from '@/types/shared';
+import { verificationService } from '@/lib/api/verification-service';
+import { ConflictError } from '@/lib/api/errors';
+import { authService } from '@/lib/auth/auth-service';
+import { getClaimInfo, reviewClaimService } from './review-claims';
+
+export type ReviewShortcutAction =
+  | 'approve'
+  | 'reject'
+  | 'requestResubmission'
+  | 'confirm'
+  | 'cancel'
+  | 'claim'
+  | 'nextCase'
+  | 'previousCase'
+  | 'backToQueue'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'resetZoom'
+  | 'openRawText'
+  | 'focusNotes'
+  | 'toggleHelp';
+
+export interface ReviewShortcut {
+  action: ReviewShortcutAction;
+  /** `KeyboardEvent.key` values; letters are matched case-insensitively. */
+  keys: string[];
+  label: string;
+  group: 'Decision' | 'Navigation' | 'Documents' | 'General';
+}
+
+export const REVIEW_SHORTCUTS: ReviewShortcut[] = [
+  { action: 'approve', keys: ['a'], label: 'Approve (then Enter to confirm)', group: 'Decision' },
+  { action: 'reject', keys: ['r'], label: 'Reject (then Enter to confirm)', group: 'Decision' },
+  { action: 'requestResubmission', keys: ['s'], label: 'Request resubmission', group: 'Decision' },
+  { action: 'confirm', keys: ['Enter'], label: 'Confirm the pending decision', group: 'Decision' },
+  { action: 'cancel', keys: ['Escape'], label: 'Cancel / close / leave the notes field', group: 'Decision' },
+  { action: 'claim', keys: ['c'], label: 'Claim case', group: 'Navigation' },
+  { action: 'nextCase', keys: ['j', 'ArrowRight'], label: 'Next case in queue', group: 'Navigation' },
+  { action: 'previousCase', keys: ['k', 'ArrowLeft'], label: 'Previous case in queue', group: 'Navigation' },
+  { action: 'backToQueue', keys: ['q'], label: 'Back to review queue', group: 'Navigation' },
+  { action: 'zoomIn', keys: ['+', '='], label: 'Zoom documents in', group: 'Documents' },
+  { action: 'zoomOut', keys: ['-', '_'], label: 'Zoom documents out', group: 'Documents' },
+  { action: 'resetZoom', keys: ['0'], label: 'Reset document zoom', group: 'Documents' },
+  { action: 'openRawText', keys: ['o'], label: 'Open raw OCR text', group: 'Documents' },
+  { action: 'focusNotes', keys: ['n'], label: 'Write review notes', group: 'General' },
+  { action: 'toggleHelp', keys: ['?'], label: 'Show or hide this cheat sheet', group: 'General' },
+];
+
+export type ReviewShortcutHandlers = Partial<Record<ReviewShortcutAction, () => void>>;
+
+const WORKSTATION_MODE_KEY = 'review_workstation_mode';
+// Cases read ahead for next/previous navigation
+const WORKSTATION_QUEUE_SIZE = 50;
+
+export const formatShortcutKey = (key: string) => {
+  switch (key) {
+    case 'ArrowRight':
+      return '→';
+    case 'ArrowLeft':
+      return '←';
+    case 'Escape':
+      return 'Esc';
+    default:
+      return key.length === 1 ? key.toUpperCase() : key;
+  }
+};
+
+// Shortcuts stay out of the way while the officer is typing
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Enter on a focused button or link already activates it
+const isActivatableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && ['BUTTON', 'A'].includes(target.tagName);
+
+/**
+ * React hook binding the review shortcuts. Only actions with a handler are
+ * live, so a screen can leave out what it does not support.
+ */
+export function useReviewShortcuts(handlers: ReviewShortcutHandlers, enabled = true) {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      const shortcut = REVIEW_SHORTCUTS.find((s) => s.keys.includes(key));
+      if (!shortcut) return;
+      if (shortcut.action !== 'cancel' && isTypingTarget(event.target)) return;
+      if (shortcut.action === 'confirm' && isActivatableTarget(event.target)) return;
+
+      const handler = handlersRef.current[shortcut.action];
+      if (handler) {
+        event.preventDefault();
+        handler();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
+
+// React hook for the workstation mode switch, remembered per browser
+export function useWorkstationMode() {
+  const [enabled, setEnabled] = useState(() =>
+    typeof window !== 'undefined' && localStorage.getItem(WORKSTATION_MODE_KEY) === 'true'
+  );
+
+  const update = (value: boolean) => {
+    setEnabled(value);
+    localStorage.setItem(WORKSTATION_MODE_KEY, String(value));
+  };
+
+  return [enabled, update] as const;
+}
+
+const isOpenCase = (verification: VerificationDto, userId: string | null) =>
+  verification.status === 'ReviewNeeded' && getClaimInfo(verification, userId).state !== 'other';
+
+/**
+ * React hook placing the current case within the review queue. Cases other
+ * officers hold are skipped; `nextIds` lists every later open case so an
+ * advance can fall through to the following one if a claim is lost.
+ */
+export function useQueueNeighbours(verificationId: string, enabled = true) {
+  const [queue, setQueue] = useState<VerificationDto[]>([]);
+
+  useEffect(() => {
+    if (!enabled || !verificationId) {
+      return;
+    }
+
+    let cancelled = false;
+    verificationService.getReviewQueue({ page: 1, pageSize: WORKSTATION_QUEUE_SIZE })
+      .then(({ verifications }) => {
+        if (!cancelled) setQueue(verifications);
+      })
+      .catch(() => {
+        // Navigation shortcuts fall back to the queue page
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [verificationId, enabled]);
+
+  const userId = authService.getUserId();
+  const index = queue.findIndex((v) => v.id === verificationId);
+  // A case missing from the queue (e.g. just decided) puts every open case ahead of it
+  const after = index === -1 ? queue : queue.slice(index + 1);
+  const before = index === -1 ? [] : queue.slice(0, index).reverse();
+
+  const nextIds = after.filter((v) => isOpenCase(v, userId)).map((v) => v.id);
+  const previousId = before.find((v) => isOpenCase(v, userId))?.id ?? null;
+
+  return {
+    position: index === -1 ? null : index + 1,
+    total: queue.length,
+    nextId: nextIds[0] ?? null,
+    nextIds,
+    previousId,
+  };
+}
+
+/**
+ * Claim the first case that is still free, in queue order. Returns its id, or
+ * null when every candidate was taken or decided in the meantime.
+ */
+export async function claimNextCase(candidateIds: string[]): Promise<string | null> {
+  for (const id of candidateIds) {
+    try {
+      await reviewClaimService.claim(id);
+      return id;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) {
+        throw error;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,178 @@
+/**
+ * Bikram Sambat (BS) ↔ Gregorian (AD) conversion. BS month lengths are set by
+ * the almanac rather than a formula, so conversion walks a published table.
+ * Dates outside the table convert to null.
+ */
+
+export const BS_MONTHS = [
+  'Baisakh', 'Jestha', 'Asar', 'Shrawan', 'Bhadra', 'Asoj',
+  'Kartik', 'Mangsir', 'Poush', 'Magh', 'Falgun', 'Chaitra',
+];
+
+export const BS_MIN_YEAR = 2000;
+export const BS_MAX_YEAR = 2090;
+
+// 1 Baisakh 2000 BS
+const EPOCH_AD = Date.UTC(1943, 3, 14);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days in each month, one row per year from BS_MIN_YEAR
+const MONTH_DAYS: number[][] = [
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2000
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 29, 31],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2010
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31],
+  [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30], // 2020
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31],
+  [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 31, 32, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2030
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [30, 32, 31, 32, 31, 31, 29, 30, 30, 29, 29, 31],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2040
+  [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2050
+  [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 31, 32, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2060
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [30, 32, 31, 32, 31, 31, 29, 30, 29, 30, 29, 31],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 29, 31],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30], // 2070
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31],
+  [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30], // 2080
+  [31, 31, 32, 32, 31, 30, 30, 30, 29, 30, 30, 30],
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30],
+  [31, 31, 32, 31, 31, 30, 30, 30, 29, 30, 30, 30],
+  [31, 31, 32, 31, 31, 30, 30, 30, 29, 30, 30, 30],
+  [31, 32, 31, 32, 30, 31, 30, 30, 29, 30, 30, 30],
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30],
+  [31, 31, 32, 31, 31, 31, 30, 30, 29, 30, 30, 30],
+  [30, 31, 32, 32, 30, 31, 30, 30, 29, 30, 30, 30],
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30],
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30], // 2090
+];
+
+const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIso = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+const yearDays = (year: number) => MONTH_DAYS[year - BS_MIN_YEAR].reduce((sum, days) => sum + days, 0);
+
+export function daysInBsMonth(year: number, month: number): number | null {
+  if (year < BS_MIN_YEAR || year > BS_MAX_YEAR || month < 1 || month > 12) return null;
+  return MONTH_DAYS[year - BS_MIN_YEAR][month - 1];
+}
+
+/**
+ * Read a BS date written year first with any separator, in Latin or
+ * Devanagari digits. Returns the ISO-style "YYYY-MM-DD" BS date, or null when
+ * it is not a day of the supported calendar.
+ */
+export function parseBsDate(value: string): string | null {
+  const text = value.trim().replace(/[०-९]/g, (d) => String(DEVANAGARI_DIGITS.indexOf(d)));
+  const match = /^(\d{4})[-/.\s](\d{1,2})[-/.\s](\d{1,2})$/.exec(text);
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const days = daysInBsMonth(year, month);
+  return days !== null && day >= 1 && day <= days ? toIso(year, month, day) : null;
+}
+
+export function bsToGregorian(value: string): string | null {
+  const bs = parseBsDate(value);
+  if (!bs) return null;
+
+  const [year, month, day] = bs.split('-').map(Number);
+  let offset = day - 1;
+  for (let y = BS_MIN_YEAR; y < year; y++) offset += yearDays(y);
+  for (let m = 1; m < month; m++) offset += MONTH_DAYS[year - BS_MIN_YEAR][m - 1];
+
+  return new Date(EPOCH_AD + offset * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function gregorianToBs(value: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  let offset = Math.round((time - EPOCH_AD) / DAY_MS);
+  if (Number.isNaN(offset) || offset < 0) return null;
+
+  for (let year = BS_MIN_YEAR; year <= BS_MAX_YEAR; year++) {
+    const row = MONTH_DAYS[year - BS_MIN_YEAR];
+    for (let month = 1; month <= 12; month++) {
+      if (offset < row[month - 1]) return toIso(year, month, offset + 1);
+      offset -= row[month - 1];
+    }
+  }
+  return null;
+}
+
+/** "25 Baisakh 2047" for showing a BS date in words. */
+export function formatBsDate(value: string): string {
+  const bs = parseBsDate(value);
+  if (!bs) return value;
+  const [year, month, day] = bs.split('-').map(Number);
+  return `${day} ${BS_MONTHS[month - 1]} ${year}`;
+}
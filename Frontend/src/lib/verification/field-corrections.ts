@@ -0,0 +1,117 @@
+import { DocumentType, ExtractedFieldDto } from '@/types/shared';
+import { BS_MAX_YEAR, BS_MIN_YEAR, bsToGregorian, formatBsDate, gregorianToBs, parseBsDate } from '@/lib/verification/bikram-sambat';
+
+// Fields that are not text and cannot be corrected by hand
+const READ_ONLY_FIELDS = ['portraitImage'];
+
+const MAX_VALUE_LENGTH = 200;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const SEX_VALUES = ['Male', 'Female', 'Unspecified'];
+
+export const isCorrectableField = (key: string) => !READ_ONLY_FIELDS.includes(key);
+
+export const isDateField = (key: string, field?: ExtractedFieldDto) =>
+  field?.format === 'yyyy-MM-dd' || /date/i.test(key);
+
+// Citizenship cards carry Bikram Sambat dates in fields such as dateOfBirthBS
+const isBikramSambatField = (key: string) => key.endsWith('BS');
+
+export type DateCalendar = 'AD' | 'BS' | 'either';
+
+/**
+ * Which calendar a date field is written in. Citizenship cards may give the
+ * Bikram Sambat जन्म मिति under dateOfBirth as well: a value that cannot be a
+ * past Gregorian date is read as BS, and one valid in both calendars could be
+ * either.
+ */
+export function dateFieldCalendar(key: string, value: string, documentType?: DocumentType): DateCalendar {
+  if (isBikramSambatField(key)) return 'BS';
+  if (documentType !== 'CitizenshipCard' || key !== 'dateOfBirth' || !parseBsDate(value)) return 'AD';
+  return validateDate(key, value, 'AD') ? 'BS' : 'either';
+}
+
+/** The same day in the other calendar, e.g. "1990-04-14 AD" for a BS field. */
+export function alternateCalendarDate(key: string, value: string, documentType?: DocumentType): string | null {
+  const calendar = dateFieldCalendar(key, value, documentType);
+  if (calendar !== 'AD') {
+    const gregorian = bsToGregorian(value);
+    if (!gregorian) return null;
+    return calendar === 'BS' ? `${gregorian} AD` : `${gregorian} AD if read as Bikram Sambat`;
+  }
+  const bikramSambat = gregorianToBs(value);
+  return bikramSambat && `${formatBsDate(bikramSambat)} BS`;
+}
+
+// Identifiers are compared against the MRZ, which only has upper-case letters and digits
+export function normalizeFieldValue(key: string, value: string): string {
+  const trimmed = value.trim();
+  return ['documentNumber', 'personalNumber', 'nationality'].includes(key) ? trimmed.toUpperCase() : trimmed;
+}
+
+const validateDate = (key: string, value: string, calendar: 'AD' | 'BS'): string | null => {
+  if (calendar === 'BS') {
+    if (!ISO_DATE.test(value)) return 'Use the YYYY-MM-DD format (Bikram Sambat)';
+    const year = Number(value.slice(0, 4));
+    if (year < BS_MIN_YEAR || year > BS_MAX_YEAR) return `Bikram Sambat years ${BS_MIN_YEAR}–${BS_MAX_YEAR} are supported`;
+    if (!parseBsDate(value)) return 'Not a valid Bikram Sambat date';
+    return validateDate(key.replace(/BS$/, ''), bsToGregorian(value) ?? '', 'AD');
+  }
+
+  const match = ISO_DATE.exec(value);
+  if (!match) {
+    return 'Use the YYYY-MM-DD format';
+  }
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return 'Not a valid calendar date';
+  }
+
+  if (key === 'dateOfBirth' && date.getTime() > Date.now()) {
+    return 'Date of birth cannot be in the future';
+  }
+  return null;
+};
+
+/**
+ * Check an officer's correction against the field's expected format. Returns
+ * the problem to show, or null when the (normalized) value is acceptable.
+ */
+export function validateFieldCorrection(
+  key: string,
+  value: string,
+  documentType: DocumentType,
+  field?: ExtractedFieldDto
+): string | null {
+  const normalized = normalizeFieldValue(key, value);
+
+  if (!normalized) {
+    return 'Enter a value';
+  }
+  if (normalized.length > MAX_VALUE_LENGTH) {
+    return `Keep it under ${MAX_VALUE_LENGTH} characters`;
+  }
+  if (isDateField(key, field)) {
+    return validateDate(key, normalized, dateFieldCalendar(key, normalized, documentType) === 'BS' ? 'BS' : 'AD');
+  }
+
+  switch (key) {
+    case 'documentNumber':
+      // Passport numbers are MRZ fields: at most 9 letters or digits
+      if (documentType === 'Passport') {
+        return /^[A-Z0-9]{1,9}$/.test(normalized) ? null : 'Passport numbers are up to 9 letters or digits';
+      }
+      return /^[A-Z0-9][A-Z0-9\-/]{2,19}$/.test(normalized)
+        ? null
+        : 'Use 3 to 20 letters, digits, dashes or slashes';
+    case 'personalNumber':
+      return /^[A-Z0-9<]{1,14}$/.test(normalized) ? null : 'Personal numbers are up to 14 letters, digits or <';
+    case 'nationality':
+      return /^[A-Z]{3}$/.test(normalized) ? null : 'Use the 3-letter country code, e.g. NPL';
+    case 'sex':
+      return SEX_VALUES.includes(normalized) ? null : `Use one of: ${SEX_VALUES.join(', ')}`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Machine-readable zone (ICAO 9303) parsing and check-digit validation for
+ * TD1 (ID cards, 3×30), TD2 (2×36) and TD3 (passports, 2×44).
+ */
+
+export type MrzFormat = 'TD1' | 'TD2' | 'TD3';
+
+export type MrzCheckField = 'documentNumber' | 'dateOfBirth' | 'expirationDate' | 'personalNumber' | 'composite';
+
+export interface MrzCheck {
+  field: MrzCheckField;
+  label: string;
+  valid: boolean;
+  /** Digit printed in the MRZ. */
+  actual: string;
+  /** Digit computed from the data it protects. */
+  expected: number;
+}
+
+export interface MrzResult {
+  format: MrzFormat;
+  lines: string[];
+  documentCode: string;
+  issuingState: string;
+  surname: string;
+  givenNames: string;
+  documentNumber: string;
+  nationality: string;
+  /** ISO dates; undefined when the MRZ date is not a valid calendar date. */
+  dateOfBirth?: string;
+  expirationDate?: string;
+  sex: 'Male' | 'Female' | 'Unspecified';
+  /** TD3 personal number, or the optional data of TD1/TD2. */
+  personalNumber?: string;
+  checks: MrzCheck[];
+  /** True when every check digit matches. */
+  valid: boolean;
+}
+
+const LINE_LENGTHS: Record<MrzFormat, { lines: number; length: number }> = {
+  TD1: { lines: 3, length: 30 },
+  TD2: { lines: 2, length: 36 },
+  TD3: { lines: 2, length: 44 },
+};
+
+// OCR drops up to this many trailing fillers from a line
+const MAX_MISSING_FILLERS = 3;
+
+const CHECK_WEIGHTS = [7, 3, 1];
+
+const charValue = (char: string) => {
+  if (char >= '0' && char <= '9') return char.charCodeAt(0) - 48;
+  if (char >= 'A' && char <= 'Z') return char.charCodeAt(0) - 55;
+  return 0;
+};
+
+export function computeCheckDigit(value: string): number {
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    sum += charValue(value[i]) * CHECK_WEIGHTS[i % 3];
+  }
+  return sum % 10;
+}
+
+const check = (field: MrzCheckField, label: string, data: string, digit: string): MrzCheck => {
+  const expected = computeCheckDigit(data);
+  // An empty optional field may carry a filler instead of 0
+  const actual = digit === '<' && /^<*$/.test(data) ? '0' : digit;
+  return { field, label, valid: actual === String(expected), actual: digit, expected };
+};
+
+const trimFiller = (value: string) => value.replace(/<+$/, '').replace(/</g, ' ').trim();
+
+const parseSex = (char: string): MrzResult['sex'] => (char === 'M' ? 'Male' : char === 'F' ? 'Female' : 'Unspecified');
+
+/**
+ * YYMMDD to ISO. Birth dates are never in the future; expiry dates are
+ * assumed to fall within the next 50 years.
+ */
+const parseDate = (value: string, kind: 'birth' | 'expiry'): string | undefined => {
+  if (!/^\d{6}$/.test(value)) return undefined;
+
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  const currentYear = new Date().getUTCFullYear();
+  const currentYy = currentYear % 100;
+  const century = Math.floor(currentYear / 100) * 100;
+
+  let year = century + yy;
+  if (kind === 'birth' && yy > currentYy) year -= 100;
+  if (kind === 'expiry' && yy < currentYy - 50) year += 100;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const parseNames = (field: string) => {
+  const [surname, ...rest] = field.split('<<');
+  return { surname: trimFiller(surname), givenNames: trimFiller(rest.join(' ')) };
+};
+
+const finish = (result: Omit<MrzResult, 'valid'>): MrzResult => ({
+  ...result,
+  valid: result.checks.every((c) => c.valid),
+});
+
+function parseTd3([line1, line2]: string[]): MrzResult {
+  return finish({
+    format: 'TD3',
+    lines: [line1, line2],
+    documentCode: trimFiller(line1.slice(0, 2)),
+    issuingState: trimFiller(line1.slice(2, 5)),
+    ...parseNames(line1.slice(5)),
+    documentNumber: trimFiller(line2.slice(0, 9)),
+    nationality: trimFiller(line2.slice(10, 13)),
+    dateOfBirth: parseDate(line2.slice(13, 19), 'birth'),
+    sex: parseSex(line2[20]),
+    expirationDate: parseDate(line2.slice(21, 27), 'expiry'),
+    personalNumber: trimFiller(line2.slice(28, 42)) || undefined,
+    checks: [
+      check('documentNumber', 'Document number', line2.slice(0, 9), line2[9]),
+      check('dateOfBirth', 'Date of birth', line2.slice(13, 19), line2[19]),
+      check('expirationDate', 'Expiry date', line2.slice(21, 27), line2[27]),
+      check('personalNumber', 'Personal number', line2.slice(28, 42), line2[42]),
+      check('composite', 'Composite', line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 43), line2[43]),
+    ],
+  });
+}
+
+function parseTd2([line1, line2]: string[]): MrzResult {
+  return finish({
+    format: 'TD2',
+    lines: [line1, line2],
+    documentCode: trimFiller(line1.slice(0, 2)),
+    issuingState: trimFiller(line1.slice(2, 5)),
+    ...parseNames(line1.slice(5)),
+    documentNumber: trimFiller(line2.slice(0, 9)),
+    nationality: trimFiller(line2.slice(10, 13)),
+    dateOfBirth: parseDate(line2.slice(13, 19), 'birth'),
+    sex: parseSex(line2[20]),
+    expirationDate: parseDate(line2.slice(21, 27), 'expiry'),
+    personalNumber: trimFiller(line2.slice(28, 35)) || undefined,
+    checks: [
+      check('documentNumber', 'Document number', line2.slice(0, 9), line2[9]),
+      check('dateOfBirth', 'Date of birth', line2.slice(13, 19), line2[19]),
+      check('expirationDate', 'Expiry date', line2.slice(21, 27), line2[27]),
+      check('composite', 'Composite', line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 35), line2[35]),
+    ],
+  });
+}
+
+function parseTd1([line1, line2, line3]: string[]): MrzResult {
+  let documentNumber = line1.slice(5, 14);
+  let documentCheck = line1[14];
+  let optionalData = line1.slice(15, 30);
+
+  // Numbers longer than 9 characters continue in the optional data, followed by their check digit
+  if (documentCheck === '<') {
+    const overflow = optionalData.replace(/<.*$/, '');
+    documentNumber += overflow.slice(0, -1);
+    documentCheck = overflow.slice(-1) || '<';
+    optionalData = optionalData.slice(overflow.length);
+  }
+
+  return finish({
+    format: 'TD1',
+    lines: [line1, line2, line3],
+    documentCode: trimFiller(line1.slice(0, 2)),
+    issuingState: trimFiller(line1.slice(2, 5)),
+    ...parseNames(line3),
+    documentNumber: trimFiller(documentNumber),
+    nationality: trimFiller(line2.slice(15, 18)),
+    dateOfBirth: parseDate(line2.slice(0, 6), 'birth'),
+    sex: parseSex(line2[7]),
+    expirationDate: parseDate(line2.slice(8, 14), 'expiry'),
+    personalNumber: trimFiller(optionalData + line2.slice(18, 29)) || undefined,
+    checks: [
+      check('documentNumber', 'Document number', documentNumber, documentCheck),
+      check('dateOfBirth', 'Date of birth', line2.slice(0, 6), line2[6]),
+      check('expirationDate', 'Expiry date', line2.slice(8, 14), line2[14]),
+      check('composite', 'Composite', line1.slice(5, 30) + line2.slice(0, 7) + line2.slice(8, 15) + line2.slice(18, 29), line2[29]),
+    ],
+  });
+}
+
+export function parseMrz(lines: string[]): MrzResult | null {
+  const format = (Object.keys(LINE_LENGTHS) as MrzFormat[]).find(
+    (f) => LINE_LENGTHS[f].lines === lines.length && lines.every((line) => line.length === LINE_LENGTHS[f].length)
+  );
+
+  switch (format) {
+    case 'TD3':
+      return parseTd3(lines);
+    case 'TD2':
+      return parseTd2(lines);
+    case 'TD1':
+      return parseTd1(lines);
+    default:
+      return null;
+  }
+}
+
+// Undo the usual OCR damage to MRZ text: spaces, lower case and look-alike fillers
+const cleanLine = (line: string) =>
+  line
+    .toUpperCase()
+    .replace(/[«‹]/g, '<<')
+    .replace(/\s+/g, '');
+
+const isMrzCandidate = (line: string) => /^[A-Z0-9<]+$/.test(line) && line.includes('<');
+
+const padTo = (line: string, length: number) =>
+  line.length < length && length - line.length <= MAX_MISSING_FILLERS ? line.padEnd(length, '<') : line;
+
+/**
+ * Find an MRZ in free OCR text. Tries consecutive candidate lines for each
+ * format, and also a whole MRZ read as a single run-on line.
+ */
+export function findMrzLines(rawText: string): string[] | null {
+  const candidates = rawText.split(/\r?\n/).map(cleanLine).filter(isMrzCandidate);
+
+  for (const format of ['TD3', 'TD2', 'TD1'] as MrzFormat[]) {
+    const { lines: count, length } = LINE_LENGTHS[format];
+
+    for (let i = 0; i + count <= candidates.length; i++) {
+      const group = candidates.slice(i, i + count).map((line) => padTo(line, length));
+      if (group.every((line) => line.length === length)) {
+        return group;
+      }
+    }
+
+    for (const line of candidates) {
+      const padded = padTo(line, length * count);
+      if (padded.length === length * count) {
+        return Array.from({ length: count }, (_, index) => padded.slice(index * length, (index + 1) * length));
+      }
+    }
+  }
+
+  return null;
+}
+
+export function parseMrzFromText(rawText?: string): MrzResult | null {
+  if (!rawText) return null;
+  const lines = findMrzLines(rawText);
+  return lines ? parseMrz(lines) : null;
+}
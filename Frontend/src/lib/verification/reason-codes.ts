@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { DecisionReasonCode, VerificationStatus } from '@/types/shared';
+import { verificationService } from '@/lib/api/verification-service';
+
+// The taxonomy changes only with server configuration, so one fetch per page load is enough
+let reasonCodesRequest: Promise<DecisionReasonCode[]> | null = null;
+
+export function loadReasonCodes(): Promise<DecisionReasonCode[]> {
+  if (!reasonCodesRequest) {
+    reasonCodesRequest = verificationService.getReasonCodes().catch((error) => {
+      reasonCodesRequest = null;
+      throw error;
+    });
+  }
+  return reasonCodesRequest;
+}
+
+/**
+ * Check a manual decision against the taxonomy before it is sent. Rejections
+ * need at least one code so they can be reported on; returns the problem to
+ * show, or null when the selection is acceptable.
+ */
+export function validateReasonSelection(
+  status: VerificationStatus,
+  selectedCodes: string[],
+  notes: string,
+  reasonCodes: DecisionReasonCode[]
+): string | null {
+  const selected = reasonCodes.filter((r) => selectedCodes.includes(r.code));
+
+  const notApplicable = selected.filter((r) => !r.appliesTo.includes(status));
+  if (notApplicable.length > 0) {
+    return `${notApplicable.map((r) => r.label).join(', ')} cannot be used when the case is ${status.toLowerCase()}`;
+  }
+
+  if (status === 'Rejected' && reasonCodes.length > 0 && selected.length === 0) {
+    return 'Select at least one rejection reason';
+  }
+
+  const needingNotes = selected.filter((r) => r.requiresNotes);
+  if (needingNotes.length > 0 && !notes.trim()) {
+    return `Add notes explaining: ${needingNotes.map((r) => r.label).join(', ')}`;
+  }
+
+  return null;
+}
+
+// React hook exposing the decision reason taxonomy; empty until loaded or if unavailable
+export function useReasonCodes() {
+  const [reasonCodes, setReasonCodes] = useState<DecisionReasonCode[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReasonCodes()
+      .then((codes) => {
+        if (!cancelled) setReasonCodes(codes);
+      })
+      .catch((error) => console.error('Failed to load decision reason codes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return reasonCodes;
+}
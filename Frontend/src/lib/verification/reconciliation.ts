@@ -0,0 +1,323 @@
+import { DocumentType, ExtractedFieldDto, VerificationDto } from '@/types/shared';
+import { bsToGregorian } from '@/lib/verification/bikram-sambat';
+import { dateFieldCalendar } from '@/lib/verification/field-corrections';
+
+export type ReconciliationStatus = 'match' | 'partial' | 'mismatch' | 'missing';
+export type ConsistencyLevel = 'consistent' | 'needsReview' | 'inconsistent' | 'insufficient';
+
+export interface FieldReconciliation {
+  field: 'name' | 'dateOfBirth';
+  label: string;
+  applicantValue?: string;
+  extractedValue?: string;
+  /** Key of the extracted field that was compared. */
+  extractedField?: string;
+  status: ReconciliationStatus;
+  /** 0–1, only when both sides had a value. */
+  similarity?: number;
+  note?: string;
+}
+
+export interface ReconciliationResult {
+  fields: FieldReconciliation[];
+  level: ConsistencyLevel;
+  /** Mean similarity of the fields that could be compared. */
+  score?: number;
+}
+
+const MATCH_THRESHOLD = 0.9;
+const PARTIAL_THRESHOLD = 0.75;
+
+// Often dropped, abbreviated or added between the applicant's form and the document
+const OPTIONAL_NAME_PARTS = ['bahadur', 'kumar', 'kumari', 'prasad', 'devi', 'lal', 'maya'];
+
+const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+
+const DEVANAGARI_VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo', 'ऋ': 'ri', 'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au',
+};
+
+const DEVANAGARI_VOWEL_SIGNS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo', 'ृ': 'ri', 'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au',
+};
+
+const DEVANAGARI_CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'ng', 'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'ny',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n', 'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm', 'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'w',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+};
+
+const HALANT = '्';
+const NASALS = ['ं', 'ँ'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Romanize Devanagari the way Nepali names are usually written in English:
+ * consonants carry an inherent "a" that is dropped before a vowel sign, a
+ * halant, or at the end of a word. Other characters pass through unchanged.
+ */
+export function transliterateDevanagari(text: string): string {
+  let result = '';
+  const chars = Array.from(text);
+
+  chars.forEach((char, index) => {
+    const consonant = DEVANAGARI_CONSONANTS[char];
+    if (consonant) {
+      const next = chars[index + 1];
+      const endsWord = next === undefined || !/[\u0900-\u097F]/.test(next);
+      const hasOwnVowel = next === HALANT || (next !== undefined && DEVANAGARI_VOWEL_SIGNS[next] !== undefined);
+      result += consonant + (hasOwnVowel || endsWord ? '' : 'a');
+      return;
+    }
+
+    const digit = DEVANAGARI_DIGITS.indexOf(char);
+    if (digit !== -1) {
+      result += String(digit);
+    } else if (DEVANAGARI_VOWELS[char]) {
+      result += DEVANAGARI_VOWELS[char];
+    } else if (DEVANAGARI_VOWEL_SIGNS[char]) {
+      result += DEVANAGARI_VOWEL_SIGNS[char];
+    } else if (NASALS.includes(char)) {
+      result += 'n';
+    } else if (char !== HALANT && char !== '़' && char !== 'ः') {
+      result += char;
+    }
+  });
+
+  return result;
+}
+
+// Spelling-insensitive key: Nepali names are romanized inconsistently (sh/s, v/w/b, aa/a, aspirated or not)
+const phoneticKey = (token: string) =>
+  token
+    .replace(/chh/g, 'ch')
+    .replace(/sh/g, 's')
+    .replace(/ph/g, 'f')
+    .replace(/([kgjtdb])h/g, '$1')
+    .replace(/[vw]/g, 'b')
+    .replace(/ee|ii|y$/g, 'i')
+    .replace(/oo|uu/g, 'u')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/(.{3,})a$/, '$1');
+
+export const tokenizeName = (name: string) =>
+  transliterateDevanagari(name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const tokenSimilarity = (a: string, b: string) => {
+  // An initial ("R.") stands for any name starting with that letter
+  if ((a.length === 1 || b.length === 1) && a[0] === b[0]) {
+    return MATCH_THRESHOLD;
+  }
+  const keyA = phoneticKey(a);
+  const keyB = phoneticKey(b);
+  return 1 - levenshtein(keyA, keyB) / Math.max(keyA.length, keyB.length, 1);
+};
+
+/**
+ * Order-insensitive name similarity (0–1). Each token is paired with its best
+ * remaining counterpart; optional middle names only count when both sides have them.
+ */
+export function compareNames(first: string, second: string): number {
+  const a = tokenizeName(first);
+  const b = tokenizeName(second);
+  const keep = (tokens: string[], other: string[]) =>
+    tokens.filter((t) => !OPTIONAL_NAME_PARTS.includes(t) || other.includes(t));
+  const left = keep(a, b);
+  const right = keep(b, a);
+
+  if (left.length === 0 || right.length === 0) {
+    return 0;
+  }
+
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  const unused = [...longer];
+  let total = 0;
+
+  for (const token of shorter) {
+    let bestIndex = 0;
+    let bestScore = -1;
+    unused.forEach((candidate, index) => {
+      const score = tokenSimilarity(token, candidate);
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+    total += bestScore;
+    unused.splice(bestIndex, 1);
+  }
+
+  return total / longer.length;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? `${year}-${pad(month)}-${pad(day)}`
+    : null;
+};
+
+/**
+ * Read a date in any of the layouts found on documents (ISO, day-first with
+ * any separator, "12 JAN 1990", Devanagari digits). Day-first dates where the
+ * day could also be a month return the swapped reading as `alternative`.
+ */
+export function normalizeDate(value: string): { iso: string; alternative?: string } | null {
+  const text = transliterateDevanagari(value).trim().toLowerCase();
+
+  let match = /^(\d{4})[-/.\s](\d{1,2})[-/.\s](\d{1,2})$/.exec(text);
+  if (match) {
+    const iso = toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    return iso ? { iso } : null;
+  }
+
+  match = /^(\d{1,2})[-/.\s](\d{1,2})[-/.\s](\d{4})$/.exec(text);
+  if (match) {
+    const [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const iso = toIsoDate(year, month, day);
+    const swapped = day !== month ? toIsoDate(year, day, month) : null;
+    if (!iso) return swapped ? { iso: swapped } : null;
+    return swapped ? { iso, alternative: swapped } : { iso };
+  }
+
+  match = /^(\d{1,2})\s*([a-z]{3})[a-z]*\s*(\d{4})$/.exec(text);
+  if (match && MONTHS.includes(match[2])) {
+    const iso = toIsoDate(Number(match[3]), MONTHS.indexOf(match[2]) + 1, Number(match[1]));
+    return iso ? { iso } : null;
+  }
+
+  return null;
+}
+
+const statusFor = (similarity: number): ReconciliationStatus =>
+  similarity >= MATCH_THRESHOLD ? 'match' : similarity >= PARTIAL_THRESHOLD ? 'partial' : 'mismatch';
+
+type FieldLookup = (key: string) => string | undefined;
+
+function reconcileName(applicantName: string | undefined, lookup: FieldLookup): FieldReconciliation {
+  const fullName = lookup('fullName');
+  const composed = [lookup('givenNames'), lookup('surname')].filter(Boolean).join(' ');
+  const extractedValue = fullName || composed || undefined;
+  const base = {
+    field: 'name' as const,
+    label: 'Name',
+    applicantValue: applicantName,
+    extractedValue,
+    extractedField: fullName ? 'fullName' : composed ? 'givenNames' : undefined,
+  };
+
+  if (!applicantName || !extractedValue) {
+    return { ...base, status: 'missing', note: applicantName ? 'Not read from the document' : 'Not provided by the applicant' };
+  }
+
+  const similarity = compareNames(applicantName, extractedValue);
+  const status = statusFor(similarity);
+  return {
+    ...base,
+    status,
+    similarity,
+    note: status === 'partial' ? 'Spelling or transliteration differs' : undefined,
+  };
+}
+
+function reconcileDateOfBirth(
+  applicantDate: string | undefined,
+  lookup: FieldLookup,
+  documentType: DocumentType
+): FieldReconciliation {
+  const dateOfBirth = lookup('dateOfBirth');
+  const dateOfBirthBS = lookup('dateOfBirthBS');
+  const extractedValue = dateOfBirth || dateOfBirthBS;
+  const base = {
+    field: 'dateOfBirth' as const,
+    label: 'Date of birth',
+    applicantValue: applicantDate,
+    extractedValue,
+    extractedField: dateOfBirth ? 'dateOfBirth' : dateOfBirthBS ? 'dateOfBirthBS' : undefined,
+  };
+
+  if (!applicantDate || !extractedValue) {
+    return { ...base, status: 'missing', note: applicantDate ? 'Not read from the document' : 'Not provided by the applicant' };
+  }
+
+  // Citizenship cards may give the Bikram Sambat date under dateOfBirth too
+  const calendar = dateOfBirth ? dateFieldCalendar('dateOfBirth', dateOfBirth, documentType) : 'BS';
+  if (calendar !== 'AD') {
+    const converted = bsToGregorian(extractedValue);
+    if (converted === applicantDate) {
+      return { ...base, status: 'match', similarity: 1, note: `${converted} AD` };
+    }
+    if (calendar === 'BS') {
+      return converted
+        ? { ...base, status: 'mismatch', similarity: 0, note: `${converted} AD` }
+        : { ...base, status: 'partial', note: 'Bikram Sambat date could not be converted; compare it by hand' };
+    }
+    // Valid in both calendars and the BS reading does not match; try it as Gregorian
+  }
+
+  const extracted = normalizeDate(extractedValue);
+  if (!extracted) {
+    return { ...base, status: 'partial', note: 'Document date could not be read as a date' };
+  }
+
+  if (extracted.iso === applicantDate) {
+    return { ...base, status: 'match', similarity: 1 };
+  }
+  if (extracted.alternative === applicantDate) {
+    return { ...base, status: 'partial', similarity: PARTIAL_THRESHOLD, note: 'Matches only if day and month are swapped' };
+  }
+  return { ...base, status: 'mismatch', similarity: 0 };
+}
+
+/**
+ * Compare what the applicant entered with what OCR read. `corrections`
+ * overrides extracted values, so pending officer edits are reflected.
+ */
+export function reconcileApplicantData(
+  verification: VerificationDto,
+  corrections: Record<string, string> = {}
+): ReconciliationResult {
+  const extractedFields: Record<string, ExtractedFieldDto> = verification.ocrResult?.extractedFields ?? {};
+  const lookup: FieldLookup = (key) => corrections[key] ?? (extractedFields[key]?.value?.trim() || undefined);
+
+  const fields = [
+    reconcileName(verification.applicantName?.trim() || undefined, lookup),
+    reconcileDateOfBirth(verification.applicantDateOfBirth || undefined, lookup, verification.documentType),
+  ];
+
+  const compared = fields.filter((f) => f.similarity !== undefined);
+  const score = compared.length > 0
+    ? compared.reduce((sum, f) => sum + (f.similarity ?? 0), 0) / compared.length
+    : undefined;
+
+  const level: ConsistencyLevel = fields.some((f) => f.status === 'mismatch')
+    ? 'inconsistent'
+    : fields.some((f) => f.status === 'partial')
+    ? 'needsReview'
+    : compared.length === 0
+    ? 'insufficient'
+    : 'consistent';
+
+  return { fields, level, score };
+}
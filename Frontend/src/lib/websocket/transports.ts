@@ -0,0 +1,314 @@
+import { WebSocketMessage } from '@/types/shared';
+
+export type TransportKind = 'websocket' | 'sse' | 'longpoll';
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (message: WebSocketMessage) => void;
+  /** Called exactly once per `open`; `clean` is true for a deliberate close. */
+  onClose: (clean: boolean, reason?: string) => void;
+}
+
+export interface Transport {
+  readonly kind: TransportKind;
+  open(handlers: TransportHandlers): void;
+  send(message: WebSocketMessage): void;
+  close(): void;
+}
+
+interface TransportOptions {
+  /** Token for the handshake; EventSource and WebSocket cannot send headers. */
+  token: string;
+  /** Fresh token for each HTTP request made over the life of the connection. */
+  getToken: () => Promise<string | null>;
+  /** Ties HTTP sends and polls to one logical connection on the server. */
+  connectionId: string;
+}
+
+interface LongPollResponse {
+  messages: WebSocketMessage[];
+  cursor?: string;
+}
+
+// Explicit endpoint; otherwise `/ws` on the host serving the app
+const LIVE_URL = process.env.NEXT_PUBLIC_WS_URL;
+const DEFAULT_TRANSPORTS: TransportKind[] = ['websocket', 'sse', 'longpoll'];
+// The server holds a poll open for up to 25s; give it headroom before giving up
+const LONG_POLL_TIMEOUT_MS = 35000;
+// A transport that has not opened by then is failed so negotiation moves on
+const HANDSHAKE_TIMEOUT_MS = 10000;
+
+const isTransportKind = (value: string): value is TransportKind =>
+  value === 'websocket' || value === 'sse' || value === 'longpoll';
+
+/**
+ * Transports to try, in order. `NEXT_PUBLIC_LIVE_TRANSPORTS` narrows or
+ * reorders them, e.g. `sse,longpoll` on networks known to block upgrades.
+ */
+export function getTransportOrder(): TransportKind[] {
+  const configured = (process.env.NEXT_PUBLIC_LIVE_TRANSPORTS ?? '')
+    .split(',')
+    .map((kind) => kind.trim())
+    .filter(isTransportKind);
+  const order = configured.length > 0 ? configured : DEFAULT_TRANSPORTS;
+
+  return order.filter((kind) => {
+    if (kind === 'websocket') return typeof WebSocket !== 'undefined';
+    if (kind === 'sse') return typeof EventSource !== 'undefined';
+    return true;
+  });
+}
+
+// Resolved per connection since `window` does not exist during server rendering
+function getLiveUrls(): { socketUrl: string; httpUrl: string } {
+  let socketUrl = LIVE_URL;
+  if (!socketUrl) {
+    // Use ws:// for local development, wss:// for production
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    socketUrl = `${protocol}//${window.location.host}/ws`;
+  }
+  // The HTTP fallbacks live under the same path: /ws/events, /ws/poll, /ws/send
+  const httpUrl = socketUrl.replace(/^ws(s?):/, 'http$1:').replace(/\/$/, '');
+  return { socketUrl, httpUrl };
+}
+
+function withQuery(url: string, params: Record<string, string>): string {
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${new URLSearchParams(params).toString()}`;
+}
+
+function parseMessage(data: string): WebSocketMessage | null {
+  try {
+    return JSON.parse(data) as WebSocketMessage;
+  } catch (error) {
+    console.error('Error parsing live message:', error);
+    return null;
+  }
+}
+
+export function createConnectionId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// Shared close bookkeeping so every transport reports exactly one onClose
+abstract class BaseTransport implements Transport {
+  abstract readonly kind: TransportKind;
+  protected handlers: TransportHandlers | null = null;
+  private handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(protected options: TransportOptions) {}
+
+  open(handlers: TransportHandlers): void {
+    this.handlers = handlers;
+    this.handshakeTimer = setTimeout(() => this.finish(false, 'Handshake timed out'), HANDSHAKE_TIMEOUT_MS);
+    this.connect();
+  }
+
+  close(): void {
+    this.finish(true, 'Client closed');
+  }
+
+  abstract send(message: WebSocketMessage): void;
+
+  protected abstract connect(): void;
+  protected abstract teardown(): void;
+
+  protected opened(): void {
+    this.clearHandshakeTimer();
+    this.handlers?.onOpen();
+  }
+
+  protected deliver(data: string): void {
+    const message = parseMessage(data);
+    if (message) {
+      this.handlers?.onMessage(message);
+    }
+  }
+
+  protected finish(clean: boolean, reason?: string): void {
+    const handlers = this.handlers;
+    if (!handlers) return;
+    this.handlers = null;
+    this.clearHandshakeTimer();
+    this.teardown();
+    handlers.onClose(clean, reason);
+  }
+
+  private clearHandshakeTimer(): void {
+    if (this.handshakeTimer) {
+      clearTimeout(this.handshakeTimer);
+      this.handshakeTimer = null;
+    }
+  }
+
+  // SSE and long-poll send upstream over plain HTTP
+  protected async post(message: WebSocketMessage): Promise<void> {
+    const { httpUrl } = getLiveUrls();
+    try {
+      const token = await this.options.getToken();
+      const response = await fetch(withQuery(`${httpUrl}/send`, { connectionId: this.options.connectionId }), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(message),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+    } catch (error) {
+      console.error(`Live message not delivered over ${this.kind}:`, error);
+    }
+  }
+}
+
+class WebSocketTransport extends BaseTransport {
+  readonly kind: TransportKind = 'websocket';
+  private ws: WebSocket | null = null;
+
+  protected connect(): void {
+    const { socketUrl } = getLiveUrls();
+    const ws = new WebSocket(withQuery(socketUrl, {
+      access_token: this.options.token,
+      connectionId: this.options.connectionId,
+    }));
+    this.ws = ws;
+
+    ws.onopen = () => this.opened();
+    ws.onmessage = (event) => this.deliver(event.data);
+    ws.onerror = (error) => console.error('WebSocket error:', error);
+    ws.onclose = (event) => this.finish(event.code === 1000, `${event.code} ${event.reason}`.trim());
+  }
+
+  send(message: WebSocketMessage): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  protected teardown(): void {
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+      ws.close(1000, 'User disconnect');
+    }
+  }
+}
+
+class EventSourceTransport extends BaseTransport {
+  readonly kind: TransportKind = 'sse';
+  private source: EventSource | null = null;
+
+  protected connect(): void {
+    const { httpUrl } = getLiveUrls();
+    const source = new EventSource(withQuery(`${httpUrl}/events`, {
+      access_token: this.options.token,
+      connectionId: this.options.connectionId,
+    }));
+    this.source = source;
+
+    source.onopen = () => this.opened();
+    source.onmessage = (event) => this.deliver(event.data);
+    // EventSource would retry on its own; the service owns backoff and fallback instead
+    source.onerror = () => this.finish(false, 'Event stream error');
+  }
+
+  send(message: WebSocketMessage): void {
+    void this.post(message);
+  }
+
+  protected teardown(): void {
+    const source = this.source;
+    this.source = null;
+    if (source) {
+      source.onopen = source.onmessage = source.onerror = null;
+      source.close();
+    }
+  }
+}
+
+class LongPollTransport extends BaseTransport {
+  readonly kind: TransportKind = 'longpoll';
+  private controller: AbortController | null = null;
+  private cursor: string | null = null;
+  private handshakeDone = false;
+
+  // The first poll carries no cursor and is answered immediately, which serves as the handshake
+  protected connect(): void {
+    this.handshakeDone = false;
+    void this.poll();
+  }
+
+  private async poll(): Promise<void> {
+    const { httpUrl } = getLiveUrls();
+    const controller = new AbortController();
+    this.controller = controller;
+    const timer = setTimeout(() => controller.abort(), LONG_POLL_TIMEOUT_MS);
+
+    try {
+      const token = await this.options.getToken();
+      const params: Record<string, string> = { connectionId: this.options.connectionId };
+      if (this.cursor) {
+        params.cursor = this.cursor;
+      }
+
+      const response = await fetch(withQuery(`${httpUrl}/poll`, params), {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      if (!this.handshakeDone) {
+        this.handshakeDone = true;
+        this.opened();
+      }
+      if (response.status !== 204) {
+        const body: LongPollResponse = await response.json();
+        this.cursor = body.cursor ?? this.cursor;
+        body.messages.forEach((message) => this.handlers?.onMessage(message));
+      }
+    } catch (error) {
+      // Closed while the request was in flight
+      if (this.controller !== controller) return;
+      // A held poll that outlived the client timeout is simply re-issued, but the handshake poll is never held
+      if (!controller.signal.aborted || !this.handshakeDone) {
+        this.finish(false, error instanceof Error ? error.message : 'Poll failed');
+        return;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (this.controller === controller) {
+      void this.poll();
+    }
+  }
+
+  send(message: WebSocketMessage): void {
+    void this.post(message);
+  }
+
+  protected teardown(): void {
+    const controller = this.controller;
+    this.controller = null;
+    controller?.abort();
+  }
+}
+
+export function createTransport(kind: TransportKind, options: TransportOptions): Transport {
+  switch (kind) {
+    case 'websocket':
+      return new WebSocketTransport(options);
+    case 'sse':
+      return new EventSourceTransport(options);
+    case 'longpoll':
+      return new LongPollTransport(options);
+  }
+}
@@ -1,82 +1,181 @@
+import { useState, useEffect } from 'react';
 import { VerificationUpdateMessage, NotificationMessage, WebSocketMessage } from '@/types/shared';
+import { authService } from '@/lib/auth/auth-service';
+import {
+  Transport,
+  TransportKind,
+  createConnectionId,
+  createTransport,
+  getTransportOrder,
+} from './transports';
 
 type EventHandler = (message: WebSocketMessage) => void;
-type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
+
+// A ping goes out this often; no traffic within the timeout means the connection is dead
+const HEARTBEAT_INTERVAL_MS = 25000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// Messages sent while disconnected, oldest dropped first beyond this
+const OUTBOX_LIMIT = 100;
 
 class WebSocketService {
-  private ws: WebSocket | null = null;
-  private url: string;
+  private transport: Transport | null = null;
+  // Position in the transport order of the last transport that opened
+  private transportIndex = 0;
+  // Bumped by disconnect() so in-flight connection attempts know to stop
+  private generation = 0;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimeout: ReturnType<typeof setTimeout> | null = null;
+  private outbox: WebSocketMessage[] = [];
+  private connectPromise: Promise<void> | null = null;
   private eventHandlers: Map<string, EventHandler[]> = new Map();
   private connectionStatus: ConnectionStatus = 'disconnected';
   private statusHandlers: ((status: ConnectionStatus) => void)[] = [];
+  // Components currently holding the connection open
+  private refCount = 0;
+  // Joined rooms with the number of subscribers in each, replayed on every (re)connect
+  private rooms: Map<string, number> = new Map();
+  // Officers watching queue-wide events; replayed on reconnect like rooms
+  private reviewQueueSubscribers = 0;
+  private sessionListenerAttached = false;
+  private environmentListenerAttached = false;
+
+  /**
+   * Hold the shared connection open. The socket connects on the first
+   * acquire and closes once every holder has released it.
+   */
+  acquire(): () => void {
+    this.refCount++;
+    this.watchSession();
+    this.watchEnvironment();
+    if (this.refCount === 1) {
+      this.connect().catch(() => {
+        // Failures are reported through the connection status
+      });
+    }
 
-  constructor() {
-    // Use ws:// for local development, wss:// for production
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const host = window.location.host;
-    this.url = `${protocol}//${host}/ws`;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.refCount--;
+      if (this.refCount === 0) {
+        this.disconnect();
+      }
+    };
   }
 
+  // Concurrent callers share one attempt so only a single connection is ever opened
   connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        resolve();
+    if (!this.connectPromise) {
+      this.connectPromise = this.open().finally(() => {
+        this.connectPromise = null;
+      });
+    }
+    return this.connectPromise;
+  }
+
+  /**
+   * Negotiate a transport: starting from the last one that worked, fall
+   * through WebSocket → SSE → long-poll until one opens. If none does, the
+   * next attempt after backoff starts again from the top.
+   */
+  private async open(): Promise<void> {
+    if (typeof window === 'undefined' || this.transport) {
+      return;
+    }
+
+    const generation = this.generation;
+    this.setConnectionStatus('connecting');
+
+    let token: string | null;
+    try {
+      token = await authService.getValidToken();
+    } catch {
+      // The token could not be refreshed right now; back off and try again
+      if (generation !== this.generation) return;
+      this.setConnectionStatus('error');
+      this.handleConnectionLost(true);
+      return;
+    }
+    if (generation !== this.generation) return;
+    if (!token) {
+      this.setConnectionStatus('disconnected');
+      return;
+    }
+
+    const order = getTransportOrder();
+    for (let index = Math.min(this.transportIndex, order.length - 1); index < order.length; index++) {
+      const opened = await this.tryTransport(order[index], token);
+      // disconnect() was called while this attempt was in flight
+      if (generation !== this.generation) return;
+      if (opened) {
+        this.transportIndex = index;
         return;
       }
+      console.log(`Live transport ${order[index]} unavailable`);
+    }
 
-      this.setConnectionStatus('connecting');
+    this.transportIndex = 0;
+    this.setConnectionStatus('error');
+    this.handleConnectionLost(true);
+  }
 
-      try {
-        this.ws = new WebSocket(this.url);
+  // Resolves true once the transport opens, false if it closes first
+  private tryTransport(kind: TransportKind, token: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      let opened = false;
+      const transport = createTransport(kind, {
+        token,
+        getToken: () => authService.getValidToken(),
+        connectionId: createConnectionId(),
+      });
+      this.transport = transport;
 
-        this.ws.onopen = () => {
+      transport.open({
+        onOpen: () => {
+          if (this.transport !== transport) return;
+          opened = true;
           this.setConnectionStatus('connected');
           this.reconnectAttempts = 0;
-          console.log('WebSocket connected');
-          resolve();
-        };
-
-        this.ws.onmessage = (event) => {
-          try {
-            const message: WebSocketMessage = JSON.parse(event.data);
-            this.handleMessage(message);
-          } catch (error) {
-            console.error('Error parsing WebSocket message:', error);
+          console.log(`Live connection open (${kind})`);
+          this.startHeartbeat();
+          this.rejoinRooms();
+          this.flushOutbox();
+          resolve(true);
+        },
+        onMessage: (message) => {
+          if (this.transport !== transport) return;
+          // Any traffic proves the connection is alive
+          this.clearHeartbeatTimeout();
+          this.handleMessage(message);
+        },
+        onClose: (clean, reason) => {
+          resolve(false);
+          // A newer connection may already have replaced this one
+          if (this.transport !== transport) return;
+          if (!opened) {
+            this.transport = null;
+            return;
           }
-        };
-
-        this.ws.onclose = (event) => {
-          this.setConnectionStatus('disconnected');
-          console.log('WebSocket disconnected:', event.code, event.reason);
-
-          // Attempt to reconnect if not a normal closure
-          if (event.code !== 1000 && this.reconnectAttempts < this.maxReconnectAttempts) {
-            this.scheduleReconnect();
-          }
-        };
-
-        this.ws.onerror = (error) => {
-          this.setConnectionStatus('error');
-          console.error('WebSocket error:', error);
-          reject(error);
-        };
-
-      } catch (error) {
-        this.setConnectionStatus('error');
-        reject(error);
-      }
+          console.log(`Live connection closed (${kind}):`, reason);
+          this.handleConnectionLost(!clean);
+        },
+      });
     });
   }
 
   disconnect(): void {
-    this.reconnectAttempts = this.maxReconnectAttempts; // Prevent reconnection
-    if (this.ws) {
-      this.ws.close(1000, 'User disconnect');
-      this.ws = null;
-    }
+    this.generation++;
+    this.cancelReconnect();
+    this.stopHeartbeat();
+    const transport = this.transport;
+    this.transport = null;
+    transport?.close();
     this.setConnectionStatus('disconnected');
   }
 
@@ -85,19 +184,137 @@ class WebSocketService {
     this.statusHandlers.forEach(handler => handler(status));
   }
 
+  // Drop the current connection without waiting for a close handshake that may never come
+  private handleConnectionLost(reconnect: boolean): void {
+    this.stopHeartbeat();
+    const transport = this.transport;
+    this.transport = null;
+    transport?.close();
+    if (this.connectionStatus !== 'error') {
+      this.setConnectionStatus('disconnected');
+    }
+
+    if (reconnect && this.refCount > 0) {
+      this.scheduleReconnect();
+    }
+  }
+
+  // Exponential backoff with jitter and no attempt limit; paused while offline or hidden
   private scheduleReconnect(): void {
+    if (this.reconnectTimer || !this.canReconnect()) {
+      return;
+    }
+
     this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * Math.pow(2, this.reconnectAttempts - 1));
+    // Spread reconnects so clients dropped together do not return together
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
 
-    console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+    console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
 
-    setTimeout(() => {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       this.connect().catch(() => {
-        // Reconnection failed, will be retried if within limits
+        // onclose schedules the next attempt
       });
     }, delay);
   }
 
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private canReconnect(): boolean {
+    return navigator.onLine && document.visibilityState !== 'hidden';
+  }
+
+  // Pause reconnecting while offline or in a background tab; resume straight away on return
+  private watchEnvironment(): void {
+    if (this.environmentListenerAttached || typeof window === 'undefined') return;
+    this.environmentListenerAttached = true;
+
+    const resume = () => {
+      if (!this.canReconnect()) {
+        this.cancelReconnect();
+        return;
+      }
+      if (this.refCount > 0 && !this.transport && !this.reconnectTimer) {
+        this.reconnectAttempts = 0;
+        this.connect().catch(() => {});
+      }
+    };
+
+    window.addEventListener('online', resume);
+    window.addEventListener('offline', resume);
+    document.addEventListener('visibilitychange', resume);
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.isConnected() || this.heartbeatTimeout) return;
+      this.send(this.createMessage('ping', {}));
+      this.heartbeatTimeout = setTimeout(() => {
+        console.warn('Live connection heartbeat timed out');
+        this.heartbeatTimeout = null;
+        this.handleConnectionLost(true);
+      }, HEARTBEAT_TIMEOUT_MS);
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearHeartbeatTimeout();
+  }
+
+  private clearHeartbeatTimeout(): void {
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
+  }
+
+  // Follow the auth session: new tokens are handed to the open socket, logout closes it
+  private watchSession(): void {
+    if (this.sessionListenerAttached) return;
+    this.sessionListenerAttached = true;
+
+    authService.onSessionChange(async (event) => {
+      if (event.type === 'logout') {
+        // Nothing queued for the previous account may reach the next one
+        this.outbox = [];
+        this.disconnect();
+        return;
+      }
+
+      if (!this.isConnected()) {
+        if (this.refCount > 0) {
+          this.connect().catch(() => {});
+        }
+        return;
+      }
+
+      // A different account must not inherit the previous socket's rooms
+      if (event.type === 'login') {
+        this.disconnect();
+        this.connect().catch(() => {});
+        return;
+      }
+
+      const token = await authService.getValidToken().catch(() => null);
+      // The next connection authenticates through its URL instead
+      if (token && this.isConnected()) {
+        this.send(this.createMessage('authenticate', { token }));
+      }
+    });
+  }
+
   private handleMessage(message: WebSocketMessage): void {
     const handlers = this.eventHandlers.get(message.type) || [];
     handlers.forEach(handler => handler(message));
@@ -105,11 +322,11 @@ class WebSocketService {
 
   // Event subscription methods
   onVerificationUpdate(handler: (message: VerificationUpdateMessage) => void): () => void {
-    return this.addEventListener('verification_update', handler);
+    return this.addEventListener<VerificationUpdateMessage>('verification_update', handler);
   }
 
   onNotification(handler: (message: NotificationMessage) => void): () => void {
-    return this.addEventListener('notification', handler);
+    return this.addEventListener<NotificationMessage>('notification', handler);
   }
 
   onConnectionStatusChange(handler: (status: ConnectionStatus) => void): () => void {
@@ -122,17 +339,19 @@ class WebSocketService {
     };
   }
 
-  private addEventListener(eventType: string, handler: EventHandler): () => void {
+  private addEventListener<T extends WebSocketMessage>(eventType: T['type'], handler: (message: T) => void): () => void {
     if (!this.eventHandlers.has(eventType)) {
       this.eventHandlers.set(eventType, []);
     }
-    this.eventHandlers.get(eventType)!.push(handler);
+    // Messages are dispatched by `type`, so only matching messages reach the handler
+    const listener = handler as EventHandler;
+    this.eventHandlers.get(eventType)!.push(listener);
 
     // Return unsubscribe function
     return () => {
       const handlers = this.eventHandlers.get(eventType);
       if (handlers) {
-        const index = handlers.indexOf(handler);
+        const index = handlers.indexOf(listener);
         if (index > -1) {
           handlers.splice(index, 1);
         }
@@ -140,33 +359,88 @@ class WebSocketService {
     };
   }
 
-  // Send message to server
-  sendVerificationRoom(verificationId: string): void {
-    this.send({
-      type: 'join_verification',
-      data: { verificationId },
-      timestamp: new Date().toISOString(),
-      id: this.generateId(),
+  /**
+   * Subscribe to a verification's room. Joins are remembered and replayed
+   * after every reconnect; returns a function that leaves the room.
+   */
+  joinVerificationRoom(verificationId: string): () => void {
+    const count = this.rooms.get(verificationId) ?? 0;
+    this.rooms.set(verificationId, count + 1);
+    if (count === 0 && this.isConnected()) {
+      this.send(this.createMessage('join_verification', { verificationId }));
+    }
+
+    let left = false;
+    return () => {
+      if (left) return;
+      left = true;
+      const remaining = (this.rooms.get(verificationId) ?? 1) - 1;
+      if (remaining > 0) {
+        this.rooms.set(verificationId, remaining);
+        return;
+      }
+      this.rooms.delete(verificationId);
+      if (this.isConnected()) {
+        this.send(this.createMessage('leave_verification', { verificationId }));
+      }
+    };
+  }
+
+  // Receive updates for every case entering or moving through the review queue
+  joinReviewQueue(): () => void {
+    this.reviewQueueSubscribers++;
+    if (this.reviewQueueSubscribers === 1 && this.isConnected()) {
+      this.send(this.createMessage('join_review_queue', {}));
+    }
+
+    let left = false;
+    return () => {
+      if (left) return;
+      left = true;
+      this.reviewQueueSubscribers--;
+      if (this.reviewQueueSubscribers === 0 && this.isConnected()) {
+        this.send(this.createMessage('leave_review_queue', {}));
+      }
+    };
+  }
+
+  private rejoinRooms(): void {
+    this.rooms.forEach((_, verificationId) => {
+      this.send(this.createMessage('join_verification', { verificationId }));
     });
+    if (this.reviewQueueSubscribers > 0) {
+      this.send(this.createMessage('join_review_queue', {}));
+    }
   }
 
-  leaveVerificationRoom(verificationId: string): void {
-    this.send({
-      type: 'leave_verification',
-      data: { verificationId },
+  private createMessage(type: string, data: Record<string, unknown>): WebSocketMessage {
+    return {
+      type,
+      data,
       timestamp: new Date().toISOString(),
       id: this.generateId(),
-    });
+    };
   }
 
-  private send(message: WebSocketMessage): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
-    } else {
-      console.warn('WebSocket not connected, message not sent:', message);
+  // Messages sent while disconnected are queued and delivered once the socket reopens
+  send(message: WebSocketMessage): void {
+    if (this.transport && this.isConnected()) {
+      this.transport.send(message);
+      return;
+    }
+
+    this.outbox.push(message);
+    if (this.outbox.length > OUTBOX_LIMIT) {
+      this.outbox.shift();
     }
   }
 
+  private flushOutbox(): void {
+    const pending = this.outbox;
+    this.outbox = [];
+    pending.forEach((message) => this.send(message));
+  }
+
   private generateId(): string {
     return Math.random().toString(36).substr(2, 9);
   }
@@ -176,13 +450,18 @@ class WebSocketService {
     return this.connectionStatus;
   }
 
-  // Check if WebSocket is connected
+  // Check if the live connection is up, whichever transport carries it
   isConnected(): boolean {
-    return this.connectionStatus === 'connected' && this.ws?.readyState === WebSocket.OPEN;
+    return this.connectionStatus === 'connected' && this.transport !== null;
+  }
+
+  // Transport carrying the current connection, if any
+  getTransportKind(): TransportKind | null {
+    return this.isConnected() ? this.transport?.kind ?? null : null;
   }
 }
 
-// Create singleton instance
+// Create singleton instance; nothing touches the browser until the first connect
 export const webSocketService = new WebSocketService();
 
 // React hook for WebSocket connection
@@ -190,15 +469,13 @@ export function useWebSocketConnection(autoConnect = true) {
   const [connectionStatus, setConnectionStatus] = useState(webSocketService.getConnectionStatus());
 
   useEffect(() => {
-    if (autoConnect) {
-      webSocketService.connect().catch(console.error);
-    }
-
     const unsubscribe = webSocketService.onConnectionStatusChange(setConnectionStatus);
+    // Other components may share the socket, so only release this hold on unmount
+    const release = autoConnect ? webSocketService.acquire() : undefined;
 
     return () => {
       unsubscribe();
-      webSocketService.disconnect();
+      release?.();
     };
   }, [autoConnect]);
 
@@ -210,12 +487,12 @@ export function useVerificationUpdates(verificationId?: string) {
   const [lastUpdate, setLastUpdate] = useState<VerificationUpdateMessage | null>(null);
 
   useEffect(() => {
-    if (!verificationId || !webSocketService.isConnected()) {
+    if (!verificationId) {
       return;
     }
 
-    // Join verification room
-    webSocketService.sendVerificationRoom(verificationId);
+    const release = webSocketService.acquire();
+    const leaveRoom = webSocketService.joinVerificationRoom(verificationId);
 
     // Listen for updates
     const unsubscribe = webSocketService.onVerificationUpdate((message) => {
@@ -226,45 +503,10 @@ export function useVerificationUpdates(verificationId?: string) {
 
     return () => {
       unsubscribe();
-      webSocketService.leaveVerificationRoom(verificationId);
+      leaveRoom();
+      release();
     };
   }, [verificationId]);
 
   return lastUpdate;
 }
-
-// React hook for notifications
-export function useNotifications() {
-  const [notifications, setNotifications] = useState<NotificationMessage[]>([]);
-
-  useEffect(() => {
-    if (!webSocketService.isConnected()) {
-      return;
-    }
-
-    const unsubscribe = webSocketService.onNotification((message) => {
-      setNotifications(prev => [...prev, message]);
-
-      // Auto-remove notification after 5 seconds
-      setTimeout(() => {
-        setNotifications(prev => prev.filter(n => n.id !== message.id));
-      }, 5000);
-    });
-
-    return unsubscribe;
-  }, []);
-
-  const clearNotifications = () => {
-    setNotifications([]);
-  };
-
-  const removeNotification = (id: string) => {
-    setNotifications(prev => prev.filter(n => n.id !== id));
-  };
-
-  return {
-    notifications,
-    clearNotifications,
-    removeNotification,
-  };
-}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  FORBIDDEN_PATH,
+  LOGIN_PATH,
+  RETURN_TO_PARAM,
+  SESSION_HINT_COOKIE,
+  findRouteAccessRule,
+  hasRequiredRole,
+  parseSessionHint,
+} from '@/lib/auth/route-access';
+
+// Runs before any protected page renders (Next.js "proxy", formerly middleware)
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const rule = findRouteAccessRule(pathname);
+  if (!rule) {
+    return NextResponse.next();
+  }
+
+  const hint = request.cookies.get(SESSION_HINT_COOKIE);
+  if (!hint) {
+    const loginUrl = new URL(LOGIN_PATH, request.url);
+    loginUrl.searchParams.set(RETURN_TO_PARAM, `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // Keep the requested URL in the address bar while showing the 403 page
+  if (!hasRequiredRole(parseSessionHint(hint.value), rule.roles)) {
+    return NextResponse.rewrite(new URL(FORBIDDEN_PATH, request.url), { status: 403 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/verify/:path*', '/review/:path*', '/admin/:path*'],
+};
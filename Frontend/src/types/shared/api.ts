@@ -1,3 +1,5 @@
+import type { Priority } from './verification';
+
 // Generic API response types
 export interface ApiResponse<T> {
   success: boolean;
@@ -16,11 +18,18 @@ export interface PaginatedResponse<T> {
   hasPreviousPage: boolean;
 }
 
-export interface ApiError {
+// Error body returned by the API. `errors` is the ASP.NET model-state shape
+// (`{ "DateOfBirth": ["..."] }`) produced by automatic validation.
+export interface ApiErrorResponse {
   error: string;
   details?: string;
   code?: string;
   timestamp: string;
+  validationErrors?: ValidationError[];
+  title?: string;
+  errors?: Record<string, string[]>;
+  /** Officer holding the case, on a `ClaimConflict` 409. */
+  claimedBy?: string;
 }
 
 export interface ValidationError {
@@ -91,6 +100,9 @@ export interface VerificationUpdateMessage extends WebSocketMessage {
     status: string;
     stage?: string;
     progress?: number;
+    priority?: Priority;
+    /** Officer the case is assigned to, if any. */
+    assignedTo?: string;
   };
 }
 
@@ -101,6 +113,7 @@ export interface NotificationMessage extends WebSocketMessage {
     message: string;
     severity: 'info' | 'warning' | 'error' | 'success';
     verificationId?: string;
+    priority?: Priority;
   };
 }
 
@@ -10,6 +10,13 @@ export interface CreateVerificationRequest {
   priority?: Priority;
 }
 
+// Replacement files for the documents an officer asked for again
+export interface ResubmitDocumentsRequest {
+  idDocument?: File;
+  idDocumentBack?: File;
+  selfieImage?: File;
+}
+
 export interface VerificationDto {
   id: string;
   referenceNumber: string;
@@ -18,8 +25,15 @@ export interface VerificationDto {
   priority: Priority;
   finalDecision?: FinalDecision;
   decisionReason?: string;
+  /** Codes from the decision reason taxonomy; see `DecisionReasonCode`. */
+  reasonCodes?: string[];
   errorMessage?: string;
   userActionRequired?: string;
+  /** Documents the applicant must upload again while the status is `ActionRequired`. */
+  requestedDocuments?: ResubmittableDocument[];
+  /** As entered on submission; the date is `yyyy-MM-dd`. */
+  applicantName?: string;
+  applicantDateOfBirth?: string;
   processingStartedAt?: string;
   completedAt?: string;
   createdAt: string;
@@ -35,6 +49,8 @@ export interface VerificationDto {
   // User information
   submittedBy?: string;
   assignedTo?: string;
+  /** When the assigned officer last claimed or renewed the case. */
+  claimedAt?: string;
 }
 
 export interface OcrResultDto {
@@ -51,6 +67,15 @@ export interface ExtractedFieldDto {
   confidence: number;
   boundingBox?: BoundingBoxDto;
   format?: string;
+  /** What OCR read, kept once an officer has corrected `value`. */
+  originalValue?: string;
+  correctedBy?: string;
+  correctedAt?: string;
+}
+
+export interface FieldCorrection {
+  field: string;
+  value: string;
 }
 
 export interface BoundingBoxDto {
@@ -81,14 +106,27 @@ export interface FaceMatchResultDto {
   similarityScore?: number;
   matchDecision?: boolean;
   confidenceThreshold?: number;
-  faceDetectionDetails?: any;
+  faceDetectionDetails?: FaceDetectionDetails;
   processingTimeMs?: number;
   modelVersion?: string;
 }
 
+export interface FaceDetectionDetails {
+  idDocumentFace?: DetectedFace;
+  selfieFace?: DetectedFace;
+  /** Why the comparison was inconclusive, when it was. */
+  reason?: string;
+}
+
+// Coordinates are in source image pixels; the ID face is located on the full document image
+export interface DetectedFace {
+  detected: boolean;
+  boundingBox?: BoundingBoxDto;
+}
+
 export interface DocumentDto {
   id: string;
-  documentType: DocumentType;
+  documentType: DocumentFileType;
   fileName: string;
   fileSizeBytes: number;
   mimeType: string;
@@ -100,9 +138,9 @@ export interface DocumentDto {
 export interface VerificationListRequest {
   page?: number;
   pageSize?: number;
-  status?: VerificationStatus;
-  documentType?: DocumentType;
-  priority?: Priority;
+  status?: VerificationStatus[];
+  documentType?: DocumentType[];
+  priority?: Priority[];
   startDate?: string;
   endDate?: string;
   searchTerm?: string;
@@ -114,11 +152,26 @@ export interface VerificationListResponse {
   currentPage: number;
   pageSize: number;
   totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
 }
 
 export interface UpdateStatusRequest {
   status: VerificationStatus;
   reason?: string;
+  reasonCodes?: string[];
+  /** OCR field corrections recorded in the audit trail with the decision. */
+  corrections?: FieldCorrection[];
+}
+
+// Entry in the server-configured taxonomy of manual decision reasons
+export interface DecisionReasonCode {
+  code: string;
+  label: string;
+  /** Plain-language explanation shown to the applicant. */
+  applicantMessage: string;
+  appliesTo: VerificationStatus[];
+  requiresNotes: boolean;
 }
 
 export interface UpdateStageRequest {
@@ -130,6 +183,12 @@ export interface AssignOfficerRequest {
   officerId: string;
 }
 
+export interface RequestResubmissionRequest {
+  documents: ResubmittableDocument[];
+  /** Shown to the applicant; a generic instruction is used when omitted. */
+  message?: string;
+}
+
 export interface WorkflowStatsDto {
   totalVerifications: number;
   pendingVerifications: number;
@@ -160,8 +219,10 @@ export interface VerificationLogEntry {
 
 // Enums
 export type DocumentType = 'Passport' | 'DriversLicense' | 'NationalID' | 'CitizenshipCard';
-export type VerificationStatus = 'Pending' | 'Processing' | 'Approved' | 'Rejected' | 'ReviewNeeded';
+export type VerificationStatus = 'Pending' | 'Processing' | 'Approved' | 'Rejected' | 'ReviewNeeded' | 'ActionRequired';
+// Document slots as stored by the API
+export type ResubmittableDocument = 'IDDocument' | 'IDDocumentBack' | 'Selfie';
 export type FinalDecision = 'Approved' | 'Rejected' | 'RequiresManualReview';
 export type Priority = 'Low' | 'Normal' | 'High' | 'Urgent';
 export type AuthenticityClassification = 'Genuine' | 'Suspicious' | 'Invalid';
-export type DocumentFileType = 'IDDocument' | 'Selfie' | 'SupportingDocument';
\ No newline at end of file
+export type DocumentFileType = 'IDDocument' | 'IDDocumentBack' | 'Selfie' | 'SupportingDocument';
\ No newline at end of file